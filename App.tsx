@@ -1,16 +1,33 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { type VocoderParams, type RecordingState } from './types';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { type VocoderParams, type VocoderSettings, type RecordingState, type BankConfig, type BandSpacing, type EnvelopeConfig, type BandLevel, type CarrierConfig, type CarrierWaveform, type ChordType, type PitchMode, type ScaleType, type TrackingConfig, type SibilanceConfig, type RenderSettings, type Patch, type LoopRegion, type WaveformEdit, type RandomizerSettings, type RandomizerMode, type PitchSnap, type ModulationConfig, type StereoConfig, type StereoMode, type EffectConfig, type MasterConfig, type SequencerConfig, type TimeStretchConfig } from './types';
 import { useVocoderAudio } from './hooks/useVocoderAudio';
-import { PlayIcon, MicrophoneIcon, StopIcon, ResetIcon, DiceIcon, DownloadIcon } from './components/Icon';
+import { useMidi } from './hooks/useMidi';
+import { useMidiLearn } from './hooks/useMidiLearn';
+import { type MidiEvent } from './utils/midi';
+import { noteNames } from './utils/scales';
+import { PlayIcon, MicrophoneIcon, StopIcon, ResetIcon, DiceIcon, DownloadIcon, LiveIcon, HeadphonesIcon } from './components/Icon';
 import { SpectrumVisualizer } from './components/SpectrumVisualizer';
 import { Slider } from './components/Slider';
-
-const defaultParams: VocoderParams = {
-    carrierNoise: 0.10,
-    size: 0.00,
-    speed: 1.00,
-    pitch: 0.30,
-};
+import { CarrierSelector } from './components/CarrierSelector';
+import { SegmentedControl } from './components/SegmentedControl';
+import { BandEditor } from './components/BandEditor';
+import { RenderDialog } from './components/RenderDialog';
+import { WaveformEditor } from './components/WaveformEditor';
+import { bandFrequencies, resizeBandLevels } from './utils/filterBank';
+import { defaultParams, defaultSettings } from './utils/patch';
+import { usePresets } from './hooks/usePresets';
+import { PresetManager } from './components/PresetManager';
+import { useHistory } from './hooks/useHistory';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AutomationLanes } from './components/AutomationLanes';
+import { ModulationMatrix } from './components/ModulationMatrix';
+import { StepSequencer } from './components/StepSequencer';
+import { EffectSelector } from './components/EffectSelector';
+import { OutputMeter } from './components/OutputMeter';
+import { useTakes } from './hooks/useTakes';
+import { TakeList } from './components/TakeList';
+import { TempoPanel } from './components/TempoPanel';
+import { createRng, randomSeed, randomizeParams } from './utils/randomizer';
 
 const sliderRanges = {
     carrierNoise: { min: 0, max: 1 },
@@ -19,19 +36,196 @@ const sliderRanges = {
     pitch: { min: -24, max: 24 },
 };
 
+const bankRanges = {
+    bandCount: { min: 4, max: 40 },
+    minFreq: { min: 40, max: 1000 },
+    maxFreq: { min: 1500, max: 16000 },
+    q: { min: 1, max: 16 },
+};
+
+const envelopeRanges = {
+    attackMs: { min: 0.1, max: 200 },
+    releaseMs: { min: 0.1, max: 1000 },
+};
+
+const defaultRenderSettings: RenderSettings = {
+    sampleRate: null,
+    channels: 2,
+    tailSeconds: 1,
+    normalize: false,
+    loudnessTarget: null,
+    loopCount: 1,
+    export: {
+        format: 'wav',
+        bitDepth: 16,
+        dither: true,
+        embedMetadata: true,
+        filenameTemplate: '{name}',
+    },
+};
+
+const carrierRanges = {
+    pulseWidth: { min: 0.05, max: 0.95 },
+    unison: { min: 1, max: 8 },
+    detune: { min: 0, max: 1 },
+};
+
+const waveformOptions: { value: CarrierWaveform; label: string }[] = [
+    { value: 'saw', label: 'Saw' },
+    { value: 'square', label: 'Square' },
+    { value: 'pulse', label: 'Pulse' },
+    { value: 'triangle', label: 'Tri' },
+    { value: 'supersaw', label: 'Super' },
+    { value: 'noise', label: 'Noise' },
+];
+
+const chordOptions: { value: ChordType; label: string }[] = [
+    { value: 'none', label: 'Off' },
+    { value: 'octave', label: '8va' },
+    { value: 'fifth', label: '5th' },
+    { value: 'major', label: 'Maj' },
+    { value: 'minor', label: 'Min' },
+    { value: 'sus4', label: 'Sus4' },
+    { value: 'maj7', label: 'Maj7' },
+    { value: 'min7', label: 'Min7' },
+];
+
+const pitchModeOptions: { value: PitchMode; label: string }[] = [
+    { value: 'fixed', label: 'Pitch Slider' },
+    { value: 'midi', label: 'MIDI Keys' },
+    { value: 'track', label: 'Track Voice' },
+    { value: 'sequence', label: 'Sequencer' },
+];
+
+const scaleOptions: { value: ScaleType; label: string }[] = [
+    { value: 'off', label: 'Free' },
+    { value: 'chromatic', label: 'Chrom' },
+    { value: 'major', label: 'Major' },
+    { value: 'minor', label: 'Minor' },
+    { value: 'pentatonic', label: 'Penta' },
+    { value: 'blues', label: 'Blues' },
+];
+
+const glideRange = { min: 0, max: 500 };
+
+const sibilanceRanges = {
+    threshold: { min: 0.05, max: 0.9 },
+    amount: { min: 0, max: 1 },
+};
+
+const stereoRanges = {
+    width: { min: 0, max: 2 },
+    carrierSpread: { min: 0, max: 1 },
+};
+
+const masterRanges = {
+    gainDb: { min: -24, max: 12 },
+    ceilingDb: { min: -12, max: 0 },
+};
+
+const stereoModeOptions: { value: StereoMode; label: string }[] = [
+    { value: 'mono', label: 'Mono' },
+    { value: 'alternate', label: 'Alternate' },
+    { value: 'spread', label: 'Spread' },
+    { value: 'true', label: 'True' },
+];
+
+const spacingOptions: { value: BandSpacing; label: string }[] = [
+    { value: 'classic', label: 'Classic' },
+    { value: 'log', label: 'Log' },
+    { value: 'bark', label: 'Bark' },
+    { value: 'mel', label: 'Mel' },
+    { value: 'linear', label: 'Linear' },
+];
+
+const formatHz = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(2)}k` : value.toFixed(0);
+const formatMs = (value: number) => `${value.toFixed(1)}ms`;
+
 const sliderColors = {
     pitch: '#ef4444',      // red-500
     size: '#22c55e',       // green-500
     carrierNoise: '#3b82f6', // blue-500
     speed: '#facc15',      // yellow-400
     dice: '#f97316',       // orange-500
+    inputGain: '#a855f7',  // purple-500
+    bank: '#64748b',       // slate-500
+    envelope: '#14b8a6',   // teal-500
+    carrier: '#ec4899',    // pink-500
+    sibilance: '#0ea5e9',  // sky-500
+    stereo: '#6366f1',     // indigo-500
+    modulation: '#8b5cf6', // violet-500
+    effects: '#f43f5e',    // rose-500
+    master: '#10b981',     // emerald-500
+    tempo: '#84cc16',      // lime-500
+};
+
+const defaultRandomizerSettings: RandomizerSettings = {
+    mode: 'roll',
+    amount: 0.1,
+    locks: {},
+    pitchSnap: 'semitone',
+    seed: null,
+};
+
+const randomizerModeOptions: { value: RandomizerMode; label: string }[] = [
+    { value: 'roll', label: 'Roll' },
+    { value: 'mutate', label: 'Mutate' },
+];
+
+const pitchSnapOptions: { value: PitchSnap; label: string }[] = [
+    { value: 'off', label: 'Free' },
+    { value: 'semitone', label: 'Semitone' },
+    { value: 'scale', label: 'Scale' },
+];
+
+const paramLabels: Record<keyof VocoderParams, string> = {
+    pitch: 'Pitch',
+    size: 'Formant',
+    carrierNoise: 'Robot',
+    speed: 'Speed',
+};
+
+const editLabels: Record<WaveformEdit, string> = {
+    trim: 'Trim',
+    normalize: 'Normalise',
+    reverse: 'Reverse',
+    fadeIn: 'Fade in',
+    fadeOut: 'Fade out',
+};
+
+/** Everything the undo history can restore. */
+interface HistorySnapshot {
+    params: VocoderParams;
+    settings: VocoderSettings;
+    buffer: AudioBuffer | null;
+    region: LoopRegion | null;
+}
+
+const describeSnapshotChange = (previous: HistorySnapshot, next: HistorySnapshot) => {
+    if (previous.buffer !== next.buffer) return next.buffer ? 'Load audio' : 'Clear audio';
+    if (previous.region !== next.region) return 'Loop region';
+    if (previous.params !== next.params) return 'Parameters';
+    return 'Settings';
 };
 
 const App: React.FC = () => {
   const [params, setParams] = useState<VocoderParams>(defaultParams);
+  const [settings, setSettings] = useState<VocoderSettings>(defaultSettings);
   const [isRendering, setIsRendering] = useState(false);
+  const [isRenderDialogOpen, setIsRenderDialogOpen] = useState(false);
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(defaultRenderSettings);
   const [isRandomizing, setIsRandomizing] = useState(false);
   const [diceButtonColor, setDiceButtonColor] = useState(sliderColors.dice);
+  const [randomizerSettings, setRandomizerSettings] = useState<RandomizerSettings>(defaultRandomizerSettings);
+  const [lastSeed, setLastSeed] = useState<number | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  // A render waiting on the user to accept clipping, with the peak it would clip at.
+  const [clipWarning, setClipWarning] = useState<{ peakDb: number; resolve: (proceed: boolean) => void } | null>(null);
+  // Takes picked for a batch render while the render dialog is open for them.
+  const [batchTakeIds, setBatchTakeIds] = useState<string[] | null>(null);
+  const modulatorFileInputRef = useRef<HTMLInputElement>(null);
+
+  const { takes, takeError, addTake, updateTakeBuffer, renameTake, deleteTake } = useTakes();
 
   const { 
     recordingState, 
@@ -43,23 +237,260 @@ const App: React.FC = () => {
     renderAndDownload,
     loadSample,
     micError,
-  } = useVocoderAudio(params);
+    loadFile,
+    modulatorFileName,
+    fileError,
+    dismissFileError,
+    modulatorBuffer,
+    loopRegion,
+    setLoopRegion,
+    seek,
+    getPlaybackPosition,
+    applyEdit,
+    restoreModulator,
+    startLive,
+    stopLive,
+    inputGain,
+    setInputGain,
+    isMonitoring,
+    toggleMonitoring,
+    liveLatency,
+    liveWarning,
+    carrierSource,
+    setCarrierSource,
+    loadCarrierFile,
+    carrierFileName,
+    carrierDevices,
+    carrierDeviceId,
+    selectCarrierDevice,
+    carrierError,
+    sendMidi,
+    renderProgress,
+    cancelRender,
+    automation,
+    automateParam,
+    clearAutomation,
+    isAutomationArmed,
+    setAutomationArmed,
+    isAutomationEnabled,
+    setAutomationEnabled,
+    getMeterReading,
+    resetLoudness,
+    loadTake,
+    toggleAudition,
+    auditionBuffer,
+    isMetronomeOn,
+    toggleMetronome,
+    isCountInOn,
+    toggleCountIn,
+    isCountingIn,
+  } = useVocoderAudio(params, settings, addTake);
+
+  const historySnapshot = useMemo<HistorySnapshot>(
+    () => ({ params, settings, buffer: modulatorBuffer, region: loopRegion }),
+    [params, settings, modulatorBuffer, loopRegion]
+  );
+  const applyHistorySnapshot = useCallback((snapshot: HistorySnapshot) => {
+    setParams(snapshot.params);
+    setSettings(snapshot.settings);
+    if (restoreModulator(snapshot.buffer, snapshot.region) && snapshot.buffer) {
+      updateTakeBuffer(snapshot.buffer);
+    }
+  }, [restoreModulator, updateTakeBuffer]);
+  const {
+    entries: historyEntries,
+    index: historyIndex,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    goTo: goToHistory,
+    describeChange,
+  } = useHistory(historySnapshot, applyHistorySnapshot, describeSnapshotChange);
+
+  const patch = useMemo<Patch>(() => ({ params, settings }), [params, settings]);
+  const handleLoadPatch = useCallback((nextPatch: Patch, source: string) => {
+    describeChange(source);
+    setParams(nextPatch.params);
+    setSettings(nextPatch.settings);
+  }, [describeChange]);
+  const {
+    presets,
+    selectedPreset,
+    isModified,
+    presetError,
+    loadPreset,
+    savePreset,
+    deletePreset,
+    exportPatch,
+    importPatch,
+    copyShareLink,
+  } = usePresets(patch, handleLoadPatch);
   
   const handleParamChange = useCallback((param: keyof VocoderParams, value: number) => {
+    describeChange(paramLabels[param], `params.${param}`);
+    if (param !== 'speed') {
+      automateParam(param, value);
+    }
     setParams(prevParams => ({
       ...prevParams,
       [param]: value,
     }));
+  }, [describeChange, automateParam]);
+
+  const { ccMappings, learningParam, toggleLearn, handleControlChange } = useMidiLearn(sliderRanges, handleParamChange);
+
+  const handleMidiEvent = useCallback((event: MidiEvent) => {
+    if (event.type === 'controlChange' && handleControlChange(event.controller, event.value)) return;
+    sendMidi(event);
+  }, [handleControlChange, sendMidi]);
+
+  const { isMidiSupported, isMidiEnabled, midiInputs, midiError, enableMidi, disableMidi } = useMidi(handleMidiEvent);
+
+  const midiLearnProps = (param: keyof VocoderParams) => isMidiEnabled ? {
+    midiCc: ccMappings[param],
+    isLearning: learningParam === param,
+    onLearn: () => toggleLearn(param),
+  } : {};
+
+  const handleRandomizerChange = useCallback(<K extends keyof RandomizerSettings>(key: K, value: RandomizerSettings[K]) => {
+    setRandomizerSettings(prev => ({ ...prev, [key]: value }));
   }, []);
 
-  const randomizeParams = useCallback(() => {
+  const lockProps = (param: keyof VocoderParams) => ({
+    isLocked: !!randomizerSettings.locks[param],
+    onToggleLock: () => handleRandomizerChange('locks', { ...randomizerSettings.locks, [param]: !randomizerSettings.locks[param] }),
+  });
+
+  const handleBankChange = useCallback(<K extends keyof BankConfig>(key: K, value: BankConfig[K]) => {
+    describeChange('Filter bank', `bank.${key}`);
+    setSettings(prevSettings => {
+      const bank = { ...prevSettings.bank, [key]: value };
+      return {
+        ...prevSettings,
+        bank,
+        bandLevels: resizeBandLevels(prevSettings.bandLevels, bank.bandCount),
+      };
+    });
+  }, [describeChange]);
+
+  const handleEnvelopeChange = useCallback((key: keyof EnvelopeConfig, value: number) => {
+    describeChange('Envelope', `envelope.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      envelope: { ...prevSettings.envelope, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handleCarrierChange = useCallback(<K extends keyof CarrierConfig>(key: K, value: CarrierConfig[K]) => {
+    describeChange('Carrier', `carrier.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      carrier: { ...prevSettings.carrier, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handleTrackingChange = useCallback(<K extends keyof TrackingConfig>(key: K, value: TrackingConfig[K]) => {
+    describeChange('Tracking', `tracking.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      tracking: { ...prevSettings.tracking, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handleSibilanceChange = useCallback(<K extends keyof SibilanceConfig>(key: K, value: SibilanceConfig[K]) => {
+    describeChange('Sibilance', `sibilance.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      sibilance: { ...prevSettings.sibilance, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handleStereoChange = useCallback(<K extends keyof StereoConfig>(key: K, value: StereoConfig[K]) => {
+    describeChange('Stereo', `stereo.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      stereo: { ...prevSettings.stereo, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handleModulationChange = useCallback((modulation: ModulationConfig, key: string) => {
+    describeChange('Modulation', `modulation.${key}`);
+    setSettings(prevSettings => ({ ...prevSettings, modulation }));
+  }, [describeChange]);
+
+  const handleSequencerChange = useCallback((sequencer: SequencerConfig, key: string) => {
+    describeChange('Sequencer', `sequencer.${key}`);
+    setSettings(prevSettings => ({ ...prevSettings, sequencer }));
+  }, [describeChange]);
+
+  const handleTempoChange = useCallback((tempo: number) => {
+    handleModulationChange({ ...settings.modulation, tempo }, 'tempo');
+  }, [settings.modulation, handleModulationChange]);
+
+  const handleTimeStretchChange = useCallback(<K extends keyof TimeStretchConfig>(key: K, value: TimeStretchConfig[K]) => {
+    describeChange('Time-stretch', `timeStretch.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      timeStretch: { ...prevSettings.timeStretch, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handleEffectsChange = useCallback((effects: EffectConfig[], key: string) => {
+    describeChange('Effects', `effects.${key}`);
+    setSettings(prevSettings => ({ ...prevSettings, effects }));
+  }, [describeChange]);
+
+  const handleMasterChange = useCallback(<K extends keyof MasterConfig>(key: K, value: MasterConfig[K]) => {
+    describeChange('Master', `master.${key}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      master: { ...prevSettings.master, [key]: value },
+    }));
+  }, [describeChange]);
+
+  const handlePitchModeChange = useCallback((pitchMode: PitchMode) => {
+    if (pitchMode === 'midi') {
+      enableMidi();
+    }
+    handleCarrierChange('pitchMode', pitchMode);
+  }, [enableMidi, handleCarrierChange]);
+
+  const handleBandLevelChange = useCallback((index: number, level: BandLevel) => {
+    describeChange('Band level', `bandLevels.${index}`);
+    setSettings(prevSettings => ({
+      ...prevSettings,
+      bandLevels: prevSettings.bandLevels.map((prevLevel, i) => i === index ? level : prevLevel),
+    }));
+  }, [describeChange]);
+
+  const handleLoopRegionChange = useCallback((region: LoopRegion) => {
+    describeChange('Loop region', 'loopRegion');
+    setLoopRegion(region);
+  }, [describeChange, setLoopRegion]);
+
+  const handleEdit = useCallback((edit: WaveformEdit) => {
+    describeChange(editLabels[edit]);
+    const edited = applyEdit(edit);
+    // The take being edited keeps the result.
+    if (edited && modulatorBuffer) updateTakeBuffer(edited, modulatorBuffer);
+  }, [describeChange, applyEdit, modulatorBuffer, updateTakeBuffer]);
+
+  const frequencies = useMemo(() => bandFrequencies(settings.bank), [settings.bank]);
+
+  const handleRandomize = useCallback(() => {
     setIsRandomizing(true);
-    const newParams: VocoderParams = {
-        carrierNoise: Math.random() * (sliderRanges.carrierNoise.max - sliderRanges.carrierNoise.min) + sliderRanges.carrierNoise.min,
-        size: Math.random() * (sliderRanges.size.max - sliderRanges.size.min) + sliderRanges.size.min,
-        speed: Math.random() * (sliderRanges.speed.max - sliderRanges.speed.min) + sliderRanges.speed.min,
-        pitch: Math.random() * (sliderRanges.pitch.max - sliderRanges.pitch.min) + sliderRanges.pitch.min,
-    };
+    const seed = randomizerSettings.seed ?? randomSeed();
+    setLastSeed(seed);
+    const newParams = randomizeParams(
+        params,
+        sliderRanges,
+        randomizerSettings,
+        createRng(seed),
+        settings.tracking.scale,
+        settings.tracking.root
+    );
+    describeChange(randomizerSettings.mode === 'mutate' ? 'Mutate' : `Roll #${seed}`);
     setParams(newParams);
 
     const colorCycle = [sliderColors.pitch, sliderColors.size, sliderColors.carrierNoise, sliderColors.speed];
@@ -74,21 +505,63 @@ const App: React.FC = () => {
         setDiceButtonColor(sliderColors.dice);
         setIsRandomizing(false);
     }, colorCycle.length * 100);
-  }, []);
+  }, [params, settings.tracking, randomizerSettings, describeChange]);
   
-  const handleDownload = useCallback(async () => {
+  const closeRenderDialog = useCallback(() => {
+    setIsRenderDialogOpen(false);
+    setBatchTakeIds(null);
+  }, []);
+
+  const handleDownload = useCallback(async (nextRenderSettings: RenderSettings) => {
+    closeRenderDialog();
+    setRenderSettings(nextRenderSettings);
     if (recordingState === 'playing') {
       togglePlayback();
     }
+    const confirmClipping = (peakDb: number) => new Promise<boolean>(resolve => {
+      setClipWarning({ peakDb, resolve });
+    });
     setIsRendering(true);
     try {
-      await renderAndDownload();
+      if (batchTakeIds) {
+        // One file per take; a cancelled or declined render stops the batch.
+        for (const take of takes.filter(t => batchTakeIds.includes(t.id))) {
+          if (!(await renderAndDownload(nextRenderSettings, confirmClipping, take))) break;
+        }
+      } else {
+        await renderAndDownload(nextRenderSettings, confirmClipping);
+      }
     } catch (error) {
       console.error("Failed to render and download audio:", error);
     } finally {
       setIsRendering(false);
     }
-  }, [renderAndDownload, recordingState, togglePlayback]);
+  }, [renderAndDownload, recordingState, togglePlayback, closeRenderDialog, batchTakeIds, takes]);
+
+  const activeTake = takes.find(take => take.buffer === modulatorBuffer) ?? null;
+  const auditioningTake = takes.find(take => take.buffer === auditionBuffer) ?? null;
+
+  const handleSelectTake = useCallback((id: string) => {
+    const take = takes.find(t => t.id === id);
+    if (!take || take === activeTake) return;
+    describeChange(`Take "${take.name}"`);
+    loadTake(take);
+  }, [takes, activeTake, describeChange, loadTake]);
+
+  const handleAuditionTake = useCallback((id: string) => {
+    const take = takes.find(t => t.id === id);
+    if (take) toggleAudition(take.buffer);
+  }, [takes, toggleAudition]);
+
+  const handleRenderTakes = useCallback((ids: string[]) => {
+    setBatchTakeIds(ids);
+    setIsRenderDialogOpen(true);
+  }, []);
+
+  const resolveClipWarning = useCallback((proceed: boolean) => {
+    clipWarning?.resolve(proceed);
+    setClipWarning(null);
+  }, [clipWarning]);
 
   const canReset = ['recorded', 'playing'].includes(recordingState);
 
@@ -102,11 +575,54 @@ const App: React.FC = () => {
     }
   }, [recordingState, canReset, togglePlayback, loadSample]);
 
-  const isPlaying = recordingState === 'playing';
+  const isLive = recordingState === 'live';
+  const canImport = recordingState !== 'recording' && !isLive;
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!canImport || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  }, [canImport]);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    // Leaving for a child element still counts as being over the drop zone.
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFile(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file && canImport) {
+      loadFile(file);
+    }
+  }, [canImport, loadFile]);
+
+  const handleModulatorFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      loadFile(file);
+    }
+    // Allow the same file to be picked again after an error.
+    e.target.value = '';
+  }, [loadFile]);
+
+  const isPlaying = recordingState === 'playing' || isLive;
   
   const mainButton = useMemo(() => {
     switch (recordingState) {
       case 'idle':
+        if (isCountingIn) {
+            return {
+                icon: <StopIcon />,
+                action: stopRecording,
+                aria: 'Cancel the count-in',
+                className: 'bg-red-600 hover:bg-red-500 text-white animate-pulse',
+                disabled: false,
+            };
+        }
         return { 
             icon: <MicrophoneIcon />, 
             action: startRecording, 
@@ -131,6 +647,14 @@ const App: React.FC = () => {
             className: 'bg-red-600 disabled:hover:bg-red-600',
             disabled: true,
         };
+      case 'live':
+        return { 
+            icon: <MicrophoneIcon />, 
+            action: () => {}, 
+            aria: 'Microphone in use by live mode. Stop live mode to record.',
+            className: 'bg-red-600 disabled:hover:bg-red-600',
+            disabled: true,
+        };
       default: // Should not happen
         return { 
             icon: <MicrophoneIcon />, 
@@ -140,7 +664,7 @@ const App: React.FC = () => {
             disabled: true,
         };
     }
-  }, [recordingState, startRecording, stopRecording]);
+  }, [recordingState, isCountingIn, startRecording, stopRecording]);
 
   const playbackButton = useMemo(() => {
     const baseClasses = 'bg-teal-600 hover:bg-teal-500';
@@ -184,7 +708,29 @@ const App: React.FC = () => {
       
       <main className="bg-white p-4 flex-grow">
         <div className="w-full max-w-2xl mx-auto">
-          <div className="w-full aspect-[4/1] bg-black rounded-md mb-4 overflow-hidden shadow-inner relative">
+          <div
+            className="w-full aspect-[4/1] bg-black rounded-md overflow-hidden shadow-inner relative"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            {isDraggingFile && (
+                <div className="absolute inset-0 z-30 flex items-center justify-center border-4 border-dashed border-[#32CD32] rounded-md bg-black/80 pointer-events-none">
+                    <span className="text-sm font-bold uppercase tracking-widest text-[#32CD32]">Drop audio to vocode</span>
+                </div>
+            )}
+            {fileError && (
+                <div className="absolute inset-0 z-20 flex flex-col items-center justify-center p-4 text-center text-white bg-black/90">
+                    <h4 className="text-lg font-bold text-red-400">File Error</h4>
+                    <p className="max-w-md text-sm text-neutral-300">{fileError}</p>
+                    <button
+                        onClick={dismissFileError}
+                        className="mt-2 text-xs font-bold uppercase tracking-wider underline"
+                    >
+                        Dismiss
+                    </button>
+                </div>
+            )}
             {micError && (
                 <div className="absolute inset-0 z-20 flex flex-col items-center justify-center p-4 text-center text-white bg-black/90">
                     <div className="w-12 h-12 mb-2 text-red-500">
@@ -201,10 +747,52 @@ const App: React.FC = () => {
             <SpectrumVisualizer analyserNode={analyserNode} isPlaying={isPlaying} recordingState={recordingState} />
           </div>
 
+          <div className="flex items-center justify-between gap-2 mt-1 mb-4 text-black">
+            <span className="text-xs font-mono truncate text-black/60">
+                {modulatorFileName ?? 'Drop a field recording on the display to vocode it'}
+            </span>
+            <button
+              onClick={() => modulatorFileInputRef.current?.click()}
+              disabled={!canImport}
+              className="shrink-0 text-xs font-bold uppercase tracking-wider underline disabled:opacity-40 disabled:no-underline"
+            >
+              Import file
+            </button>
+            <input
+              ref={modulatorFileInputRef}
+              type="file"
+              accept="audio/*,.wav,.mp3,.ogg,.flac,.m4a"
+              className="hidden"
+              onChange={handleModulatorFileChange}
+            />
+          </div>
+
+          {modulatorBuffer && loopRegion && (
+            <div className="mb-4">
+              <WaveformEditor
+                buffer={modulatorBuffer}
+                loopRegion={loopRegion}
+                onLoopRegionChange={handleLoopRegionChange}
+                onSeek={seek}
+                getPlaybackPosition={getPlaybackPosition}
+                onEdit={handleEdit}
+                disabled={isRendering}
+              />
+            </div>
+          )}
+
+          <div className="mb-4">
+            <BandEditor
+              frequencies={frequencies}
+              levels={settings.bandLevels}
+              onChange={handleBandLevelChange}
+            />
+          </div>
+
           <div className="flex items-center justify-center gap-6 mb-6">
             <button
               onClick={resetRecording}
-              disabled={!canReset && recordingState !== 'idle'}
+              disabled={(!canReset && recordingState !== 'idle' && !isLive) || isCountingIn}
               className={`${sideButtonBaseClasses} bg-blue-600 hover:bg-blue-500 disabled:hover:bg-blue-600`}
               aria-label="Clear recording"
             >
@@ -220,14 +808,14 @@ const App: React.FC = () => {
             </button>
             <button
               onClick={handlePlaybackToggle}
-              disabled={recordingState === 'recording'}
+              disabled={recordingState === 'recording' || isLive || isCountingIn}
               className={`${mainButtonBaseClasses} ${playbackButton.className}`}
               aria-label={playbackButton.aria}
             >
                 {playbackButton.icon}
             </button>
             <button
-              onClick={randomizeParams}
+              onClick={handleRandomize}
               disabled={isRandomizing}
               style={{ backgroundColor: diceButtonColor }}
               className={`${sideButtonBaseClasses} transition-colors duration-100 ease-in-out hover:brightness-95`}
@@ -237,10 +825,251 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          <div className="bg-black/10 p-4 rounded-lg shadow-inner">
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mb-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Takes</h3>
+            <TakeList
+              takes={takes}
+              activeId={activeTake?.id ?? null}
+              auditioningId={auditioningTake?.id ?? null}
+              disabled={isRendering || recordingState === 'recording' || isLive}
+              onSelect={handleSelectTake}
+              onAudition={handleAuditionTake}
+              onRename={renameTake}
+              onDelete={deleteTake}
+              onRender={handleRenderTakes}
+              error={takeError}
+            />
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mb-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Tempo</h3>
+            <TempoPanel
+              buffer={modulatorBuffer}
+              loopRegion={loopRegion}
+              onLoopRegionChange={handleLoopRegionChange}
+              tempo={settings.modulation.tempo}
+              onTempoChange={handleTempoChange}
+              speed={params.speed}
+              speedRange={sliderRanges.speed}
+              onSpeedChange={(value) => handleParamChange('speed', value)}
+              timeStretch={settings.timeStretch}
+              onTimeStretchChange={handleTimeStretchChange}
+              isMetronomeOn={isMetronomeOn}
+              onToggleMetronome={toggleMetronome}
+              isCountInOn={isCountInOn}
+              onToggleCountIn={toggleCountIn}
+              disabled={isRendering}
+              color={sliderColors.tempo}
+            />
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mb-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Presets</h3>
+            <PresetManager
+              presets={presets}
+              selectedPreset={selectedPreset}
+              isModified={isModified}
+              onLoad={loadPreset}
+              onSave={savePreset}
+              onDelete={deletePreset}
+              onExport={exportPatch}
+              onImport={importPatch}
+              onCopyLink={copyShareLink}
+              error={presetError}
+            />
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mb-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">History</h3>
+            <HistoryPanel
+              labels={historyEntries.map(entry => entry.label)}
+              index={historyIndex}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onSelect={goToHistory}
+            />
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-bold text-black uppercase tracking-widest">Live Mode</h3>
+                {liveLatency && (
+                    <span className="text-xs font-mono bg-black/10 px-2 rounded" title={`Base ${liveLatency.base.toFixed(1)} ms, output ${liveLatency.output.toFixed(1)} ms`}>
+                        ~{liveLatency.total.toFixed(1)} ms
+                    </span>
+                )}
+            </div>
+            <div className="flex items-center gap-4">
+                <button
+                  onClick={isLive ? stopLive : startLive}
+                  disabled={recordingState === 'recording' || isCountingIn}
+                  className={`h-12 px-4 rounded-md text-white flex items-center gap-2 font-bold tracking-wider shadow-md transition-all duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed ${isLive ? 'bg-red-600 hover:bg-red-500 animate-record-pulse-glow' : 'bg-purple-600 hover:bg-purple-500'}`}
+                  aria-label={isLive ? 'Stop live vocoding' : 'Start live vocoding from the microphone'}
+                  aria-pressed={isLive}
+                >
+                  <LiveIcon />
+                  {isLive ? 'Stop' : 'Go Live'}
+                </button>
+                <button
+                  onClick={toggleMonitoring}
+                  className={`h-12 px-4 rounded-md flex items-center gap-2 font-bold tracking-wider shadow-md transition-all duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-purple-500 ${isMonitoring ? 'bg-black text-white' : 'bg-white text-black'}`}
+                  aria-label={isMonitoring ? 'Mute live monitoring' : 'Monitor live output'}
+                  aria-pressed={isMonitoring}
+                  title="Use headphones to avoid feedback"
+                >
+                  <HeadphonesIcon />
+                  {isMonitoring ? 'Monitor On' : 'Monitor Off'}
+                </button>
+                <div className="flex-grow">
+                    <Slider
+                      label="Input Gain"
+                      min={0}
+                      max={4}
+                      step={0.01}
+                      value={inputGain}
+                      onChange={setInputGain}
+                      color={sliderColors.inputGain}
+                    />
+                </div>
+            </div>
+            {liveWarning && (
+                <p className="text-xs font-bold text-red-600 mt-2" role="alert">{liveWarning}</p>
+            )}
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mb-6">
             <div className="text-center mb-4">
+                <h3 className="text-sm font-bold text-black uppercase tracking-widest">Carrier</h3>
+            </div>
+            <CarrierSelector
+              source={carrierSource}
+              onSourceChange={setCarrierSource}
+              fileName={carrierFileName}
+              onFileSelected={loadCarrierFile}
+              devices={carrierDevices}
+              deviceId={carrierDeviceId}
+              onDeviceSelected={selectCarrierDevice}
+              error={carrierError}
+            />
+            {carrierSource === 'synth' && (
+              <div className="mt-4 space-y-4">
+                <SegmentedControl
+                  label="Carrier pitch"
+                  options={pitchModeOptions}
+                  value={settings.carrier.pitchMode}
+                  onChange={handlePitchModeChange}
+                />
+                {settings.carrier.pitchMode === 'sequence' && (
+                  <StepSequencer
+                    sequencer={settings.sequencer}
+                    onChange={handleSequencerChange}
+                    tempo={settings.modulation.tempo}
+                    onTempoChange={handleTempoChange}
+                    color={sliderColors.carrier}
+                  />
+                )}
+                {settings.carrier.pitchMode === 'track' && (
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-grow">
+                        <SegmentedControl
+                          label="Scale"
+                          options={scaleOptions}
+                          value={settings.tracking.scale}
+                          onChange={(value) => handleTrackingChange('scale', value)}
+                        />
+                      </div>
+                      <select
+                        value={settings.tracking.root}
+                        onChange={(e) => handleTrackingChange('root', parseInt(e.target.value, 10))}
+                        disabled={settings.tracking.scale === 'off' || settings.tracking.scale === 'chromatic'}
+                        className="h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm disabled:opacity-50"
+                        aria-label="Scale root"
+                      >
+                        {noteNames.map((name, index) => (
+                          <option key={name} value={index}>{name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <Slider
+                      label="Glide"
+                      min={glideRange.min}
+                      max={glideRange.max}
+                      step={1}
+                      value={settings.tracking.glideMs}
+                      onChange={(value) => handleTrackingChange('glideMs', value)}
+                      color={sliderColors.carrier}
+                      formatValue={(value) => `${value.toFixed(0)}ms`}
+                    />
+                  </div>
+                )}
+                <SegmentedControl
+                  label="Carrier waveform"
+                  options={waveformOptions}
+                  value={settings.carrier.waveform}
+                  onChange={(value) => handleCarrierChange('waveform', value)}
+                />
+                <SegmentedControl
+                  label="Chord"
+                  options={chordOptions}
+                  value={settings.carrier.chord}
+                  onChange={(value) => handleCarrierChange('chord', value)}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                    <Slider
+                      label="Unison"
+                      min={carrierRanges.unison.min}
+                      max={carrierRanges.unison.max}
+                      step={1}
+                      value={settings.carrier.unison}
+                      onChange={(value) => handleCarrierChange('unison', value)}
+                      color={sliderColors.carrier}
+                      formatValue={(value) => value.toFixed(0)}
+                    />
+                    <Slider
+                      label="Detune"
+                      min={carrierRanges.detune.min}
+                      max={carrierRanges.detune.max}
+                      step={0.01}
+                      value={settings.carrier.detune}
+                      onChange={(value) => handleCarrierChange('detune', value)}
+                      color={sliderColors.carrier}
+                    />
+                    {settings.carrier.waveform === 'pulse' && (
+                      <Slider
+                        label="Pulse Width"
+                        min={carrierRanges.pulseWidth.min}
+                        max={carrierRanges.pulseWidth.max}
+                        step={0.01}
+                        value={settings.carrier.pulseWidth}
+                        onChange={(value) => handleCarrierChange('pulseWidth', value)}
+                        color={sliderColors.carrier}
+                      />
+                    )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner">
+            <div className="flex items-center justify-between mb-4">
                 <h3 className="text-sm font-bold text-black uppercase tracking-widest">Voice Character</h3>
+                {isMidiSupported && (
+                    <button
+                      onClick={isMidiEnabled ? disableMidi : enableMidi}
+                      className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${isMidiEnabled ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`}
+                      aria-pressed={isMidiEnabled}
+                      title={isMidiEnabled ? (midiInputs.join(', ') || 'No MIDI inputs connected') : 'Enable MIDI input'}
+                    >
+                      MIDI {isMidiEnabled ? `(${midiInputs.length})` : 'Off'}
+                    </button>
+                )}
             </div>
+            {midiError && (
+                <p className="text-xs font-bold text-red-600 mb-2" role="alert">{midiError}</p>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
                 <Slider
                   label="Pitch"
@@ -249,6 +1078,8 @@ const App: React.FC = () => {
                   step={0.1}
                   value={params.pitch}
                   onChange={(value) => handleParamChange('pitch', value)}
+                  {...midiLearnProps('pitch')}
+                  {...lockProps('pitch')}
                   color={sliderColors.pitch}
                 />
                 <Slider
@@ -258,6 +1089,8 @@ const App: React.FC = () => {
                   step={0.01}
                   value={params.size}
                   onChange={(value) => handleParamChange('size', value)}
+                  {...midiLearnProps('size')}
+                  {...lockProps('size')}
                   color={sliderColors.size}
                 />
                 <Slider
@@ -267,6 +1100,8 @@ const App: React.FC = () => {
                   step={0.01}
                   value={params.carrierNoise}
                   onChange={(value) => handleParamChange('carrierNoise', value)}
+                  {...midiLearnProps('carrierNoise')}
+                  {...lockProps('carrierNoise')}
                   color={sliderColors.carrierNoise}
                 />
                 <Slider
@@ -276,39 +1111,387 @@ const App: React.FC = () => {
                   step={0.01}
                   value={params.speed}
                   onChange={(value) => handleParamChange('speed', value)}
+                  {...midiLearnProps('speed')}
+                  {...lockProps('speed')}
                   color={sliderColors.speed}
                 />
             </div>
+
+            {modulatorBuffer && loopRegion && (
+                <div className="mt-6 pt-4 border-t-2 border-black/10">
+                    <AutomationLanes
+                      lanes={automation}
+                      duration={modulatorBuffer.duration}
+                      loopRegion={loopRegion}
+                      ranges={sliderRanges}
+                      labels={paramLabels}
+                      colors={sliderColors}
+                      getPlaybackPosition={getPlaybackPosition}
+                      isArmed={isAutomationArmed}
+                      onArmedChange={setAutomationArmed}
+                      isEnabled={isAutomationEnabled}
+                      onEnabledChange={setAutomationEnabled}
+                      onClear={clearAutomation}
+                    />
+                </div>
+            )}
+
+            <div className="mt-6 pt-4 border-t-2 border-black/10 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h4 className="text-xs font-bold text-black uppercase tracking-widest">Randomiser</h4>
+                    {lastSeed !== null && (
+                        <button
+                          onClick={() => handleRandomizerChange('seed', lastSeed)}
+                          className="text-xs font-mono bg-black/10 px-2 rounded hover:bg-black/20"
+                          title="Reuse this seed for the next roll"
+                        >
+                          seed {lastSeed}
+                        </button>
+                    )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                    <SegmentedControl
+                      label="Randomiser mode"
+                      options={randomizerModeOptions}
+                      value={randomizerSettings.mode}
+                      onChange={(value) => handleRandomizerChange('mode', value)}
+                    />
+                    <SegmentedControl
+                      label="Pitch snapping"
+                      options={pitchSnapOptions}
+                      value={randomizerSettings.pitchSnap}
+                      onChange={(value) => handleRandomizerChange('pitchSnap', value)}
+                    />
+                    {randomizerSettings.mode === 'mutate' && (
+                        <Slider
+                          label="Variation"
+                          min={0.01}
+                          max={0.5}
+                          step={0.01}
+                          value={randomizerSettings.amount}
+                          onChange={(value) => handleRandomizerChange('amount', value)}
+                          color={sliderColors.dice}
+                          formatValue={(value) => `${(value * 100).toFixed(0)}%`}
+                        />
+                    )}
+                    <div className="flex items-center gap-2 text-black">
+                        <label htmlFor="randomizer-seed" className="font-bold text-xs uppercase tracking-wider">Seed</label>
+                        <input
+                          id="randomizer-seed"
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={randomizerSettings.seed ?? ''}
+                          onChange={(e) => handleRandomizerChange('seed', e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))))}
+                          placeholder="random"
+                          className="flex-1 min-w-0 h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm font-mono"
+                        />
+                        {randomizerSettings.seed !== null && (
+                            <button
+                              onClick={() => handleRandomizerChange('seed', null)}
+                              className="text-xs font-bold uppercase tracking-wider underline"
+                            >
+                              Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
           </div>
           
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mt-6">
+            <div className="text-center mb-4">
+                <h3 className="text-sm font-bold text-black uppercase tracking-widest">Filter Bank</h3>
+            </div>
+            <div className="mb-4">
+                <SegmentedControl
+                  label="Band spacing"
+                  options={spacingOptions}
+                  value={settings.bank.spacing}
+                  onChange={(value) => handleBankChange('spacing', value)}
+                />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                <Slider
+                  label="Bands"
+                  min={bankRanges.bandCount.min}
+                  max={bankRanges.bandCount.max}
+                  step={1}
+                  value={settings.bank.bandCount}
+                  onChange={(value) => handleBankChange('bandCount', value)}
+                  color={sliderColors.bank}
+                  formatValue={(value) => value.toFixed(0)}
+                />
+                <Slider
+                  label="Q"
+                  min={bankRanges.q.min}
+                  max={bankRanges.q.max}
+                  step={0.1}
+                  value={settings.bank.q}
+                  onChange={(value) => handleBankChange('q', value)}
+                  color={sliderColors.bank}
+                  formatValue={(value) => value.toFixed(1)}
+                />
+                <Slider
+                  label="Low"
+                  min={bankRanges.minFreq.min}
+                  max={bankRanges.minFreq.max}
+                  step={1}
+                  value={settings.bank.minFreq}
+                  onChange={(value) => handleBankChange('minFreq', value)}
+                  color={sliderColors.bank}
+                  formatValue={formatHz}
+                />
+                <Slider
+                  label="High"
+                  min={bankRanges.maxFreq.min}
+                  max={bankRanges.maxFreq.max}
+                  step={10}
+                  value={settings.bank.maxFreq}
+                  onChange={(value) => handleBankChange('maxFreq', value)}
+                  color={sliderColors.bank}
+                  formatValue={formatHz}
+                />
+                <Slider
+                  label="Attack"
+                  min={envelopeRanges.attackMs.min}
+                  max={envelopeRanges.attackMs.max}
+                  step={0.1}
+                  value={settings.envelope.attackMs}
+                  onChange={(value) => handleEnvelopeChange('attackMs', value)}
+                  color={sliderColors.envelope}
+                  formatValue={formatMs}
+                />
+                <Slider
+                  label="Release"
+                  min={envelopeRanges.releaseMs.min}
+                  max={envelopeRanges.releaseMs.max}
+                  step={0.1}
+                  value={settings.envelope.releaseMs}
+                  onChange={(value) => handleEnvelopeChange('releaseMs', value)}
+                  color={sliderColors.envelope}
+                  formatValue={formatMs}
+                />
+            </div>
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mt-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-sm font-bold text-black uppercase tracking-widest">Sibilance</h3>
+                <button
+                  onClick={() => handleSibilanceChange('enabled', !settings.sibilance.enabled)}
+                  className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${settings.sibilance.enabled ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`}
+                  aria-pressed={settings.sibilance.enabled}
+                  aria-label="Toggle sibilance restoration"
+                >
+                  {settings.sibilance.enabled ? 'On' : 'Off'}
+                </button>
+            </div>
+            <div className={`grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 ${settings.sibilance.enabled ? '' : 'opacity-50'}`}>
+                <Slider
+                  label="Threshold"
+                  min={sibilanceRanges.threshold.min}
+                  max={sibilanceRanges.threshold.max}
+                  step={0.01}
+                  value={settings.sibilance.threshold}
+                  onChange={(value) => handleSibilanceChange('threshold', value)}
+                  color={sliderColors.sibilance}
+                />
+                <Slider
+                  label="Amount"
+                  min={sibilanceRanges.amount.min}
+                  max={sibilanceRanges.amount.max}
+                  step={0.01}
+                  value={settings.sibilance.amount}
+                  onChange={(value) => handleSibilanceChange('amount', value)}
+                  color={sliderColors.sibilance}
+                />
+            </div>
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mt-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Stereo</h3>
+            <div className="space-y-4">
+                <SegmentedControl
+                  label="Stereo mode"
+                  options={stereoModeOptions}
+                  value={settings.stereo.mode}
+                  onChange={(mode) => handleStereoChange('mode', mode)}
+                />
+                <div className={`grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 ${settings.stereo.mode === 'mono' ? 'opacity-50' : ''}`}>
+                    <Slider
+                      label="Width"
+                      min={stereoRanges.width.min}
+                      max={stereoRanges.width.max}
+                      step={0.01}
+                      value={settings.stereo.width}
+                      onChange={(value) => handleStereoChange('width', value)}
+                      formatValue={(value) => `${Math.round(value * 100)}%`}
+                      color={sliderColors.stereo}
+                    />
+                    <Slider
+                      label="Unison Spread"
+                      min={stereoRanges.carrierSpread.min}
+                      max={stereoRanges.carrierSpread.max}
+                      step={0.01}
+                      value={settings.stereo.carrierSpread}
+                      onChange={(value) => handleStereoChange('carrierSpread', value)}
+                      formatValue={(value) => `${Math.round(value * 100)}%`}
+                      color={sliderColors.stereo}
+                    />
+                </div>
+            </div>
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mt-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Modulation</h3>
+            <ModulationMatrix
+              modulation={settings.modulation}
+              onChange={handleModulationChange}
+              color={sliderColors.modulation}
+            />
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mt-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Effects</h3>
+            <EffectSelector
+              effects={settings.effects}
+              onChange={handleEffectsChange}
+              color={sliderColors.effects}
+            />
+          </div>
+
+          <div className="bg-black/10 p-4 rounded-lg shadow-inner mt-6">
+            <h3 className="text-sm font-bold text-black uppercase tracking-widest mb-4">Master</h3>
+            <div className="space-y-4">
+                <OutputMeter getReading={getMeterReading} onResetLoudness={resetLoudness} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+                    <Slider
+                      label="Output"
+                      min={masterRanges.gainDb.min}
+                      max={masterRanges.gainDb.max}
+                      step={0.5}
+                      value={settings.master.gainDb}
+                      onChange={(value) => handleMasterChange('gainDb', value)}
+                      formatValue={(value) => `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`}
+                      color={sliderColors.master}
+                    />
+                    <div className={settings.master.limiter ? '' : 'opacity-50'}>
+                        <Slider
+                          label="Ceiling"
+                          min={masterRanges.ceilingDb.min}
+                          max={masterRanges.ceilingDb.max}
+                          step={0.1}
+                          value={settings.master.ceilingDb}
+                          onChange={(value) => handleMasterChange('ceilingDb', value)}
+                          formatValue={(value) => `${value.toFixed(1)} dBFS`}
+                          color={sliderColors.master}
+                        />
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleMasterChange('limiter', !settings.master.limiter)}
+                      className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${settings.master.limiter ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`}
+                      aria-pressed={settings.master.limiter}
+                      title="Brickwall limiter holding the output under the ceiling"
+                    >
+                      Limiter
+                    </button>
+                    <button
+                      onClick={() => handleMasterChange('autoGain', !settings.master.autoGain)}
+                      className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${settings.master.autoGain ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`}
+                      aria-pressed={settings.master.autoGain}
+                      title="Keep the vocoded level matched to the modulator, whatever the bands and Q"
+                    >
+                      Auto Gain
+                    </button>
+                </div>
+            </div>
+          </div>
+
           <div className="mt-6">
-            <button
-              onClick={handleDownload}
-              disabled={!canReset || isRendering}
-              className={`w-full h-12 rounded-md text-white flex items-center justify-center gap-2 font-bold tracking-wider shadow-md transition-all duration-200 ease-in-out transform focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed bg-green-600 hover:bg-green-500 disabled:hover:bg-green-600`}
-              aria-label="Download manipulated sound"
-            >
-              {isRendering ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Rendering...
-                </>
-              ) : (
-                <>
-                  <DownloadIcon />
-                  Download Audio
-                </>
-              )}
-            </button>
+            {isRendering ? (
+              <div className="flex items-center gap-2">
+                <div
+                  className="relative flex-grow h-12 rounded-md bg-green-600/30 overflow-hidden shadow-md"
+                  role="progressbar"
+                  aria-label="Rendering progress"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round((renderProgress ?? 0) * 100)}
+                >
+                  <div
+                    className="absolute inset-y-0 left-0 bg-green-600 transition-all duration-200 ease-out"
+                    style={{ width: `${(renderProgress ?? 0) * 100}%` }}
+                  ></div>
+                  <span className="relative z-10 flex items-center justify-center h-full text-white font-bold tracking-wider">
+                    Rendering... {Math.round((renderProgress ?? 0) * 100)}%
+                  </span>
+                </div>
+                <button
+                  onClick={cancelRender}
+                  className="h-12 px-4 rounded-md bg-white text-black font-bold tracking-wider shadow-md hover:bg-black/10 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-purple-500"
+                  aria-label="Cancel rendering"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsRenderDialogOpen(true)}
+                disabled={!canReset}
+                className={`w-full h-12 rounded-md text-white flex items-center justify-center gap-2 font-bold tracking-wider shadow-md transition-all duration-200 ease-in-out transform focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed bg-green-600 hover:bg-green-500 disabled:hover:bg-green-600`}
+                aria-label="Download manipulated sound"
+              >
+                <DownloadIcon />
+                Download Audio
+              </button>
+            )}
             <p className="text-center text-xs text-black/50 mt-2">
               App Design by Basic_Salad
             </p>
           </div>
         </div>
       </main>
+      {isRenderDialogOpen && (
+        <RenderDialog
+          initialSettings={renderSettings}
+          takeCount={batchTakeIds?.length}
+          onRender={handleDownload}
+          onClose={closeRenderDialog}
+        />
+      )}
+      {clipWarning && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60">
+          <div
+            className="w-full max-w-sm bg-[#D9D9D9] rounded-lg shadow-xl p-4 space-y-4 text-black"
+            role="alertdialog"
+            aria-modal="true"
+            aria-labelledby="clip-warning-title"
+          >
+            <h3 id="clip-warning-title" className="text-sm font-bold uppercase tracking-widest text-center">Render Will Clip</h3>
+            <p className="text-sm">
+              Reaching the loudness target puts the peak at +{clipWarning.peakDb.toFixed(1)} dBFS, which this format cannot store.
+              Lower the target or export 32-bit float WAV to keep it clean.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => resolveClipWarning(false)}
+                className="flex-1 h-10 rounded-md bg-white text-black font-bold tracking-wider shadow-md hover:bg-black/10"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => resolveClipWarning(true)}
+                className="flex-1 h-10 rounded-md bg-red-600 hover:bg-red-500 text-white font-bold tracking-wider shadow-md"
+              >
+                Download anyway
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
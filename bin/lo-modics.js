@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Runs the CLI bundle built by `npm run build:cli`.
+import '../dist-cli/index.js';
@@ -0,0 +1,74 @@
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+
+const hasWildcard = (segment: string) => /[*?[]/.test(segment);
+
+/**
+ * Converts a glob to a regular expression over '/' separated paths. Supports
+ * '*', '?', '[...]' and '**' for any number of directories.
+ */
+const globToRegExp = (pattern: string) => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end < 0) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+/** Lists the files under a directory, descending at most `depth` levels below it. */
+const walk = (directory: string, depth: number, files: string[]) => {
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = `${directory}/${entry.name}`;
+    if (entry.isDirectory() && depth > 0) walk(entryPath, depth - 1, files);
+    else if (entry.isFile()) files.push(entryPath);
+  }
+};
+
+/**
+ * Expands glob patterns to the files they match, for shells (and Windows)
+ * that pass patterns through unexpanded. Plain paths are kept as they are.
+ * @param patterns The paths and patterns given on the command line.
+ * @returns The matching files, sorted per pattern, without duplicates.
+ */
+export const expandGlobs = (patterns: string[]): string[] => {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    const firstWildcard = segments.findIndex(hasWildcard);
+    if (firstWildcard < 0) {
+      files.add(pattern);
+      continue;
+    }
+    const base = segments.slice(0, firstWildcard).join('/') || '.';
+    const matcher = globToRegExp(normalized);
+    const depth = normalized.includes('**') ? Infinity : segments.length - firstWildcard - 1;
+    const candidates: string[] = [];
+    walk(base, depth, candidates);
+    candidates
+      .map(file => base === '.' && !normalized.startsWith('./') ? file.replace(/^\.\//, '') : file)
+      .filter(file => matcher.test(file))
+      .sort()
+      .forEach(file => files.add(file));
+  }
+  return [...files];
+};
@@ -0,0 +1,110 @@
+import { parseArgs } from 'node:util';
+import type { ExportSettings } from '../types';
+import { renderFiles } from './render';
+
+const usage = `Usage: lo-modics render <input.wav...> [options]
+
+Vocodes WAV files with the same DSP as the web app. Inputs may be globs,
+e.g. "lines/**/*.wav".
+
+Options:
+  -o, --output <path>     Output file for one input, or a directory for several.
+                          Defaults to <name>-vocoded.wav next to each input.
+  -p, --preset <name>     Factory preset (e.g. robot-choir, whisper) or a JSON patch file
+      --pitch <semitones> Carrier pitch, -24 to 24
+      --size <octaves>    Formant shift, -2 to 2
+      --robot <amount>    Carrier noise mix, 0 to 1
+      --speed <rate>      Modulator playback speed, 0.1 to 2
+  -c, --carrier <file>    WAV file to use as the carrier instead of the synth, looped
+      --bit-depth <bits>  16, 24 or 32 (float); default 24
+      --tail <seconds>    Silence rendered after each input so it can ring out; default 1
+      --loudness <lufs>   Normalise each file to an integrated loudness
+      --normalize         Normalise each file's peak to -1 dBFS
+      --seed <n>          Seed for the noise, oscillator phases and dither, for byte-identical renders
+  -h, --help              Show this help
+`;
+
+/** Parses a numeric option, rejecting anything that is not a finite number. */
+const parseNumber = (name: string, value: string | undefined, min: number, max: number) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`--${name} must be a number from ${min} to ${max}.`);
+  }
+  return number;
+};
+
+/**
+ * Joins negative numbers to their option, since parseArgs would take
+ * "--size -0.5" for two options.
+ */
+const attachNegativeValues = (argv: string[]) => argv.reduce<string[]>((args, arg) => {
+  const previous = args[args.length - 1];
+  if (/^-\d|^-\.\d/.test(arg) && previous?.startsWith('--') && !previous.includes('=')) {
+    args[args.length - 1] = `${previous}=${arg}`;
+  } else {
+    args.push(arg);
+  }
+  return args;
+}, []);
+
+const main = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: attachNegativeValues(argv),
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      pitch: { type: 'string' },
+      size: { type: 'string' },
+      robot: { type: 'string' },
+      speed: { type: 'string' },
+      carrier: { type: 'string', short: 'c' },
+      'bit-depth': { type: 'string' },
+      tail: { type: 'string' },
+      loudness: { type: 'string' },
+      normalize: { type: 'boolean', default: false },
+      seed: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    console.log(usage);
+    return 0;
+  }
+  if (command !== 'render') {
+    throw new Error(`Unknown command "${command}".\n\n${usage}`);
+  }
+  if (!inputs.length) {
+    throw new Error(`No input files given.\n\n${usage}`);
+  }
+  const bitDepth = parseNumber('bit-depth', values['bit-depth'], 16, 32) ?? 24;
+  if (![16, 24, 32].includes(bitDepth)) {
+    throw new Error('--bit-depth must be 16, 24 or 32.');
+  }
+  const failures = await renderFiles({
+    inputs,
+    output: values.output,
+    preset: values.preset,
+    pitch: parseNumber('pitch', values.pitch, -24, 24),
+    size: parseNumber('size', values.size, -2, 2),
+    robot: parseNumber('robot', values.robot, 0, 1),
+    speed: parseNumber('speed', values.speed, 0.1, 2),
+    carrier: values.carrier,
+    bitDepth: bitDepth as ExportSettings['bitDepth'],
+    tailSeconds: parseNumber('tail', values.tail, 0, 60) ?? 1,
+    loudness: parseNumber('loudness', values.loudness, -70, 0),
+    normalize: values.normalize,
+    seed: parseNumber('seed', values.seed, 0, 2 ** 32 - 1),
+  });
+  return failures ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  },
+);
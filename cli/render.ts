@@ -0,0 +1,155 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import type { ExportSettings, Patch } from '../types';
+import { renderHeadless } from '../dsp/render';
+import { audioBufferToWav } from '../utils/audioExport';
+import { normalizeBuffer } from '../utils/bufferEdit';
+import { normalizeLoudness } from '../utils/loudness';
+import { defaultParams, defaultSettings, parsePatchFile } from '../utils/patch';
+import { factoryPresets } from '../utils/presets';
+import { createRng } from '../utils/randomizer';
+import { expandGlobs } from './glob';
+import { PcmBuffer, decodeWav } from './wav';
+
+export interface RenderOptions {
+  inputs: string[];
+  /** An output file for a single input, otherwise a directory. Next to each input when left out. */
+  output?: string;
+  /** A factory preset name or a JSON patch file. */
+  preset?: string;
+  pitch?: number;
+  size?: number;
+  robot?: number;
+  speed?: number;
+  carrier?: string;
+  bitDepth: ExportSettings['bitDepth'];
+  tailSeconds: number;
+  /** Integrated loudness to normalise each file to, in LUFS. */
+  loudness?: number;
+  normalize: boolean;
+  seed?: number;
+}
+
+// Peak level that normalised renders are scaled to, in dBFS, as in the app.
+const NORMALIZE_PEAK_DB = -1;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Finds a preset by file path, or by factory preset name. Names match
+ * loosely, so 'robot' finds 'Robot Choir' as long as only one preset starts with it.
+ * @throws If nothing or more than one preset matches.
+ */
+export const loadPreset = (name: string): Patch => {
+  if (name.toLowerCase().endsWith('.json')) {
+    return parsePatchFile(readFileSync(name, 'utf8')).patch;
+  }
+  const wanted = slug(name);
+  const exact = factoryPresets.find(preset => slug(preset.name) === wanted);
+  if (exact) return exact.patch;
+  const matches = factoryPresets.filter(preset => slug(preset.name).startsWith(wanted));
+  if (matches.length !== 1) {
+    const names = factoryPresets.map(preset => slug(preset.name)).join(', ');
+    throw new Error(matches.length ? `"${name}" matches several presets: ${matches.map(preset => slug(preset.name)).join(', ')}.` : `No preset called "${name}". Factory presets: ${names}.`);
+  }
+  return matches[0].patch;
+};
+
+/** Stretches a channel to a new sample rate with linear interpolation. */
+const resample = (data: Float32Array, from: number, to: number) => {
+  if (from === to) return data;
+  const ratio = from / to;
+  // At least one frame, so a very short carrier still loops once downsampled.
+  const out = new Float32Array(Math.max(1, Math.floor(data.length / ratio)));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, data.length - 1);
+    out[i] = data[index] + (data[next] - data[index]) * (position - index);
+  }
+  return out;
+};
+
+/** The vocoder takes at most two channels; anything beyond is dropped. */
+const readWav = (file: string) => {
+  const { channels, sampleRate } = decodeWav(readFileSync(file));
+  return { channels: channels.slice(0, 2), sampleRate };
+};
+
+const outputPathFor = (input: string, options: RenderOptions) => {
+  const name = `${path.basename(input, path.extname(input))}-vocoded.wav`;
+  if (!options.output) return path.join(path.dirname(input), name);
+  if (options.inputs.length === 1 && options.output.toLowerCase().endsWith('.wav')) return options.output;
+  return path.join(options.output, name);
+};
+
+/**
+ * Vocodes every input with the same patch and writes each to a WAV file.
+ * @returns How many inputs failed.
+ */
+export const renderFiles = async (options: RenderOptions): Promise<number> => {
+  const inputs = expandGlobs(options.inputs);
+  if (!inputs.length) {
+    throw new Error('No input files matched.');
+  }
+  const patch = options.preset ? loadPreset(options.preset) : { params: defaultParams, settings: defaultSettings };
+  const params = {
+    pitch: options.pitch ?? patch.params.pitch,
+    size: options.size ?? patch.params.size,
+    carrierNoise: options.robot ?? patch.params.carrierNoise,
+    speed: options.speed ?? patch.params.speed,
+  };
+  const settings = patch.settings;
+  if (settings.effects.length) {
+    console.warn(`Skipping the patch's ${settings.effects.length} effect(s): the effects rack needs Web Audio.`);
+  }
+  const carrier = options.carrier ? readWav(options.carrier) : null;
+  if (carrier && !carrier.channels[0]?.length) {
+    throw new Error(`The carrier "${options.carrier}" has no samples.`);
+  }
+  if (carrier && settings.carrier.pitchMode !== 'fixed') {
+    console.warn('An external carrier replaces the internal synth, so its pitch mode is ignored.');
+  }
+
+  let failures = 0;
+  for (const input of inputs) {
+    const output = outputPathFor(input, { ...options, inputs });
+    try {
+      const modulator = readWav(input);
+      const channels = renderHeadless({
+        modulator: modulator.channels,
+        carrier: carrier && carrier.channels.map(channel => resample(channel, carrier.sampleRate, modulator.sampleRate)),
+        sampleRate: modulator.sampleRate,
+        params,
+        settings,
+        tailSeconds: options.tailSeconds,
+        channels: modulator.channels.length === 1 && settings.stereo.mode === 'mono' ? 1 : 2,
+        seed: options.seed,
+      });
+      const buffer = new PcmBuffer(channels, modulator.sampleRate);
+      if (options.loudness !== undefined) {
+        const measurement = normalizeLoudness(buffer, options.loudness);
+        if (measurement && measurement.peakDb > 0 && options.bitDepth !== 32) {
+          console.warn(`${output}: reaching ${options.loudness} LUFS clips at +${measurement.peakDb.toFixed(1)} dBFS.`);
+        }
+      } else if (options.normalize) {
+        normalizeBuffer(buffer, NORMALIZE_PEAK_DB);
+      }
+      // A seeded render also seeds its dither and leaves out the date, so the file repeats byte for byte.
+      const { seed } = options;
+      const blob = audioBufferToWav(buffer, { bitDepth: options.bitDepth, dither: options.bitDepth !== 32 }, {
+        title: path.basename(output, '.wav'),
+        software: 'Lo-Modics Field Vocoder',
+        comment: JSON.stringify({ params, settings }),
+        date: seed === undefined ? new Date() : undefined,
+      }, seed === undefined ? undefined : createRng(seed));
+      mkdirSync(path.dirname(output), { recursive: true });
+      writeFileSync(output, new Uint8Array(await blob.arrayBuffer()));
+      console.log(`${input} -> ${output}`);
+    } catch (error) {
+      failures++;
+      console.error(`${input}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return failures;
+};
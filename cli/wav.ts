@@ -0,0 +1,104 @@
+/**
+ * An AudioBuffer made of plain arrays, so the browser's encoders and loudness
+ * tools run in Node, which has no Web Audio.
+ */
+export class PcmBuffer implements AudioBuffer {
+  readonly sampleRate: number;
+  readonly length: number;
+  readonly numberOfChannels: number;
+  private channels: Float32Array[];
+
+  constructor(channels: Float32Array[], sampleRate: number) {
+    this.channels = channels;
+    this.sampleRate = sampleRate;
+    this.length = channels[0]?.length ?? 0;
+    this.numberOfChannels = channels.length;
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number): Float32Array<ArrayBuffer> {
+    return this.channels[channel] as Float32Array<ArrayBuffer>;
+  }
+
+  copyFromChannel(destination: Float32Array, channel: number, bufferOffset = 0) {
+    destination.set(this.channels[channel].subarray(bufferOffset, bufferOffset + destination.length));
+  }
+
+  copyToChannel(source: Float32Array, channel: number, bufferOffset = 0) {
+    this.channels[channel].set(source.subarray(0, this.length - bufferOffset), bufferOffset);
+  }
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Reads a WAV file's samples.
+ * @param bytes The file's contents.
+ * @returns The channels, scaled to -1..1, and the sample rate.
+ * @throws If the file is not a PCM or float WAV file.
+ */
+export const decodeWav = (bytes: Uint8Array): { channels: Float32Array[]; sampleRate: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.length < 12 || ascii(0) !== 'RIFF' || ascii(8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitDepth = 0;
+  let data: { offset: number; size: number } | null = null;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = ascii(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitDepth = view.getUint16(body + 14, true);
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        // The real format is the first two bytes of the sub-format GUID.
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      // Some writers leave the size at 0 or too large when streaming, so clamp it to the file.
+      data = { offset: body, size: Math.min(size || bytes.length, bytes.length - body) };
+    }
+    // Chunks are padded to an even length.
+    offset = body + size + (size % 2);
+  }
+
+  if (!data || !channelCount || !sampleRate) {
+    throw new Error('The WAV file has no audio data.');
+  }
+  const isFloat = format === WAVE_FORMAT_IEEE_FLOAT;
+  if (!(format === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitDepth)) && !(isFloat && [32, 64].includes(bitDepth))) {
+    throw new Error(`Unsupported WAV encoding (format ${format}, ${bitDepth} bit).`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = Math.floor(data.size / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  const read = (offset: number): number => {
+    if (isFloat) return bitDepth === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+    switch (bitDepth) {
+      case 8: return (view.getUint8(offset) - 128) / 128;
+      case 16: return view.getInt16(offset, true) / 0x8000;
+      case 24: return ((view.getUint8(offset + 2) << 24 | view.getUint8(offset + 1) << 16 | view.getUint8(offset) << 8) >> 8) / 0x800000;
+      default: return view.getInt32(offset, true) / 0x80000000;
+    }
+  };
+  for (let frame = 0, offset = data.offset; frame < frameCount; frame++) {
+    for (let c = 0; c < channelCount; c++, offset += bytesPerSample) {
+      channels[c][frame] = read(offset);
+    }
+  }
+  return { channels, sampleRate };
+};
@@ -0,0 +1,172 @@
+import React, { useRef, useEffect } from 'react';
+import type { AutomatableParam, AutomationLanes as Lanes, LoopRegion } from '../types';
+import { automatableParams, automationValueAt } from '../utils/automation';
+
+interface AutomationLanesProps {
+  lanes: Lanes;
+  duration: number;
+  loopRegion: LoopRegion;
+  ranges: Record<AutomatableParam, { min: number; max: number }>;
+  labels: Record<AutomatableParam, string>;
+  colors: Record<AutomatableParam, string>;
+  getPlaybackPosition: () => number;
+  isArmed: boolean;
+  onArmedChange: (armed: boolean) => void;
+  isEnabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onClear: (param?: AutomatableParam) => void;
+}
+
+const width = 512;
+const laneHeight = 32;
+
+const toggleClasses = (active: boolean) =>
+  `text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${active ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`;
+
+/**
+ * Draws one lane as a stepped line over the recording, with the loop region
+ * and playhead, redrawn every frame while mounted.
+ */
+const Lane: React.FC<{
+  points: Lanes[AutomatableParam];
+  duration: number;
+  loopRegion: LoopRegion;
+  range: { min: number; max: number };
+  color: string;
+  label: string;
+  getPlaybackPosition: () => number;
+}> = ({ points, duration, loopRegion, range, color, label, getPlaybackPosition }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = width;
+    canvas.height = laneHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const toX = (time: number) => (time / duration) * width;
+    const toY = (value: number) => laneHeight - 2 - ((value - range.min) / (range.max - range.min)) * (laneHeight - 4);
+
+    const draw = () => {
+      animationFrameRef.current = requestAnimationFrame(draw);
+
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, width, laneHeight);
+
+      const regionStart = toX(loopRegion.start);
+      ctx.fillStyle = 'rgba(50, 205, 50, 0.15)';
+      ctx.fillRect(regionStart, 0, toX(loopRegion.end) - regionStart, laneHeight);
+
+      if (points.length) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(0, toY(points[0].value));
+        points.forEach((point, i) => {
+          const x = toX(point.time);
+          ctx.lineTo(x, toY(i > 0 ? points[i - 1].value : point.value));
+          ctx.lineTo(x, toY(point.value));
+        });
+        ctx.lineTo(width, toY(points[points.length - 1].value));
+        ctx.stroke();
+      }
+
+      const position = getPlaybackPosition();
+      ctx.fillStyle = 'white';
+      ctx.fillRect(toX(position), 0, 1, laneHeight);
+      if (points.length) {
+        ctx.fillRect(toX(position) - 2, toY(automationValueAt(points, position, 0)) - 2, 5, 5);
+      }
+    };
+    draw();
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [points, duration, loopRegion, range, color, getPlaybackPosition]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-8 rounded-md shadow-inner"
+      aria-label={`${label} automation, ${points.length} points`}
+    />
+  );
+};
+
+export const AutomationLanes: React.FC<AutomationLanesProps> = ({
+  lanes,
+  duration,
+  loopRegion,
+  ranges,
+  labels,
+  colors,
+  getPlaybackPosition,
+  isArmed,
+  onArmedChange,
+  isEnabled,
+  onEnabledChange,
+  onClear,
+}) => {
+  const hasPoints = automatableParams.some(param => lanes[param].length > 0);
+
+  return (
+    <div className="w-full flex flex-col space-y-2 text-black select-none">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs font-bold text-black uppercase tracking-widest">Automation</h4>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onArmedChange(!isArmed)}
+            className={isArmed ? 'text-xs font-bold uppercase tracking-wider px-2 py-1 rounded bg-red-600 text-white' : toggleClasses(false)}
+            aria-pressed={isArmed}
+            title="Record slider moves made during playback"
+          >
+            Rec
+          </button>
+          <button
+            onClick={() => onEnabledChange(!isEnabled)}
+            className={toggleClasses(isEnabled)}
+            aria-pressed={isEnabled}
+            title="Replay the lanes during playback and renders"
+          >
+            Read
+          </button>
+          <button
+            onClick={() => onClear()}
+            disabled={!hasPoints}
+            className="text-xs font-bold uppercase tracking-wider underline disabled:opacity-40 disabled:no-underline"
+          >
+            Clear all
+          </button>
+        </div>
+      </div>
+      {automatableParams.map(param => (
+        <div key={param} className="flex items-center gap-2">
+          <span className="w-16 shrink-0 text-xs font-mono">{labels[param]}</span>
+          <Lane
+            points={lanes[param]}
+            duration={duration}
+            loopRegion={loopRegion}
+            range={ranges[param]}
+            color={colors[param]}
+            label={labels[param]}
+            getPlaybackPosition={getPlaybackPosition}
+          />
+          <button
+            onClick={() => onClear(param)}
+            disabled={!lanes[param].length}
+            className="shrink-0 text-xs font-bold uppercase tracking-wider underline disabled:opacity-40 disabled:no-underline"
+            title={`Clear the ${labels[param]} lane`}
+          >
+            Clear
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import type { BandLevel } from '../types';
+
+interface BandEditorProps {
+  frequencies: number[];
+  levels: BandLevel[];
+  onChange: (index: number, level: BandLevel) => void;
+  minGain?: number;
+  maxGain?: number;
+}
+
+const formatFrequency = (freq: number) => freq >= 1000 ? `${(freq / 1000).toFixed(1)}k` : freq.toFixed(0);
+
+export const BandEditor: React.FC<BandEditorProps> = ({ frequencies, levels, onChange, minGain = -24, maxGain = 12 }) => {
+  const anySolo = levels.some(level => level.solo);
+
+  return (
+    <div className="w-full bg-black rounded-md p-2 shadow-inner overflow-x-auto">
+      <div className="flex gap-1 min-w-max justify-center">
+        {frequencies.map((freq, index) => {
+          const level = levels[index];
+          if (!level) return null;
+          const audible = anySolo ? level.solo : !level.mute;
+          const percentage = ((level.gain - minGain) / (maxGain - minGain)) * 100;
+
+          return (
+            <div key={index} className={`flex flex-col items-center w-7 transition-opacity duration-100 ${audible ? '' : 'opacity-40'}`}>
+              <div className="relative h-24 w-full flex justify-center">
+                <div
+                  className="absolute bottom-0 w-2 rounded-sm bg-[#32CD32] pointer-events-none"
+                  style={{ height: `${percentage}%` }}
+                ></div>
+                <input
+                  type="range"
+                  min={minGain}
+                  max={maxGain}
+                  step={0.5}
+                  value={level.gain}
+                  onChange={(e) => onChange(index, { ...level, gain: parseFloat(e.target.value) })}
+                  onDoubleClick={() => onChange(index, { ...level, gain: 0 })}
+                  className="relative z-10 h-full w-full opacity-0 cursor-ns-resize"
+                  style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                  aria-label={`Band ${formatFrequency(freq)} Hz gain`}
+                  title={`${level.gain.toFixed(1)} dB`}
+                />
+              </div>
+              <span className="text-[9px] font-mono text-neutral-400 mt-1">{formatFrequency(freq)}</span>
+              <button
+                onClick={() => onChange(index, { ...level, mute: !level.mute })}
+                className={`w-6 h-5 mt-1 rounded-sm text-[10px] font-bold ${level.mute ? 'bg-red-500 text-white' : 'bg-neutral-800 text-neutral-400'}`}
+                aria-label={`Mute band ${formatFrequency(freq)} Hz`}
+                aria-pressed={level.mute}
+              >
+                M
+              </button>
+              <button
+                onClick={() => onChange(index, { ...level, solo: !level.solo })}
+                className={`w-6 h-5 mt-1 rounded-sm text-[10px] font-bold ${level.solo ? 'bg-yellow-400 text-black' : 'bg-neutral-800 text-neutral-400'}`}
+                aria-label={`Solo band ${formatFrequency(freq)} Hz`}
+                aria-pressed={level.solo}
+              >
+                S
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useRef } from 'react';
+import type { CarrierSource } from '../types';
+import { SegmentedControl } from './SegmentedControl';
+
+interface CarrierSelectorProps {
+  source: CarrierSource;
+  onSourceChange: (source: CarrierSource) => void;
+  fileName: string | null;
+  onFileSelected: (file: File) => void;
+  devices: MediaDeviceInfo[];
+  deviceId: string | null;
+  onDeviceSelected: (deviceId: string) => void;
+  error: string | null;
+}
+
+const sourceOptions: { value: CarrierSource; label: string }[] = [
+  { value: 'synth', label: 'Synth' },
+  { value: 'file', label: 'File' },
+  { value: 'device', label: 'Input' },
+];
+
+export const CarrierSelector: React.FC<CarrierSelectorProps> = ({
+  source,
+  onSourceChange,
+  fileName,
+  onFileSelected,
+  devices,
+  deviceId,
+  onDeviceSelected,
+  error,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSourceClick = (value: CarrierSource) => {
+    // Without a decoded file there is nothing to switch to, so ask for one first.
+    if (value === 'file' && !fileName) {
+      fileInputRef.current?.click();
+      return;
+    }
+    onSourceChange(value);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onFileSelected(file);
+    }
+    // Allow the same file to be picked again after an error.
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-2 text-black select-none">
+      <SegmentedControl
+        label="Carrier source"
+        options={sourceOptions}
+        value={source}
+        onChange={handleSourceClick}
+      />
+
+      {source === 'file' && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-mono bg-black/10 px-2 rounded truncate">{fileName}</span>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs font-bold uppercase tracking-wider underline"
+          >
+            Change
+          </button>
+        </div>
+      )}
+
+      {source === 'device' && (
+        <select
+          value={deviceId ?? ''}
+          onChange={(e) => e.target.value && onDeviceSelected(e.target.value)}
+          className="h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+          aria-label="Carrier input device"
+        >
+          <option value="">Choose an input…</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Input ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="audio/*"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {error && (
+        <p className="text-xs font-bold text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
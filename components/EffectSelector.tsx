@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import type { EffectConfig, EffectType, LfoDivision } from '../types';
+import { Slider } from './Slider';
+import { createEffect, effectLabels } from '../utils/effects';
+
+interface EffectSelectorProps {
+  effects: EffectConfig[];
+  /** Receives the whole new rack, and a key naming what changed, for undo history. */
+  onChange: (effects: EffectConfig[], key: string) => void;
+  color: string;
+}
+
+interface Control {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+}
+
+const formatMs = (value: number) => `${value.toFixed(0)} ms`;
+const formatHz = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${value.toFixed(0)} Hz`;
+const formatDb = (value: number) => `${value.toFixed(1)} dB`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// The sliders each effect type shows, besides mix.
+const controls: Record<EffectType, Control[]> = {
+  reverb: [
+    { key: 'decaySeconds', label: 'Decay', min: 0.2, max: 8, step: 0.1, format: (value) => `${value.toFixed(1)} s` },
+    { key: 'preDelayMs', label: 'Pre-Delay', min: 0, max: 200, step: 1, format: formatMs },
+    { key: 'damping', label: 'Damping', min: 0, max: 1, step: 0.01, format: formatPercent },
+  ],
+  delay: [
+    { key: 'feedback', label: 'Feedback', min: 0, max: 0.95, step: 0.01, format: formatPercent },
+    { key: 'toneHz', label: 'Tone', min: 500, max: 16000, step: 100, format: formatHz },
+  ],
+  chorus: [
+    { key: 'rateHz', label: 'Rate', min: 0.05, max: 5, step: 0.05, format: (value) => `${value.toFixed(2)} Hz` },
+    { key: 'depthMs', label: 'Depth', min: 0, max: 5, step: 0.1, format: (value) => `${value.toFixed(1)} ms` },
+    { key: 'delayMs', label: 'Delay', min: 5, max: 30, step: 0.5, format: (value) => `${value.toFixed(1)} ms` },
+  ],
+  bitcrush: [
+    { key: 'bits', label: 'Bits', min: 1, max: 16, step: 1, format: (value) => `${value.toFixed(0)} bit` },
+    { key: 'downsample', label: 'Downsample', min: 1, max: 32, step: 1, format: (value) => `${value.toFixed(0)}x` },
+  ],
+  distortion: [
+    { key: 'driveDb', label: 'Drive', min: 0, max: 36, step: 0.5, format: formatDb },
+    { key: 'toneHz', label: 'Tone', min: 500, max: 16000, step: 100, format: formatHz },
+  ],
+  compressor: [
+    { key: 'thresholdDb', label: 'Threshold', min: -60, max: 0, step: 0.5, format: formatDb },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, format: (value) => `${value.toFixed(1)}:1` },
+    { key: 'attackMs', label: 'Attack', min: 0, max: 100, step: 0.5, format: formatMs },
+    { key: 'releaseMs', label: 'Release', min: 10, max: 1000, step: 5, format: formatMs },
+    { key: 'makeupDb', label: 'Makeup', min: 0, max: 24, step: 0.5, format: formatDb },
+  ],
+};
+
+const effectTypes = Object.keys(effectLabels) as EffectType[];
+
+const divisions: LfoDivision[] = ['2/1', '1/1', '1/2', '1/4', '1/8', '1/16', '1/4t', '1/8t', '1/4d', '1/8d'];
+
+const buttonClasses = 'h-8 px-2 rounded-md bg-white text-black text-xs font-bold uppercase tracking-wider shadow-md hover:bg-black/10 disabled:opacity-50';
+const toggleClasses = (active: boolean) =>
+  `text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${active ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`;
+
+export const EffectSelector: React.FC<EffectSelectorProps> = ({ effects, onChange, color }) => {
+  const [typeToAdd, setTypeToAdd] = useState<EffectType>('reverb');
+
+  const updateEffect = (index: number, key: string, value: unknown) => {
+    const next = [...effects];
+    next[index] = { ...next[index], [key]: value } as EffectConfig;
+    onChange(next, `${next[index].id}.${key}`);
+  };
+
+  const moveEffect = (index: number, offset: number) => {
+    const next = [...effects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onChange(next, 'order');
+  };
+
+  const removeEffect = (index: number) => {
+    onChange(effects.filter((_, i) => i !== index), 'remove');
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-4 text-black select-none">
+      {effects.length === 0 && (
+        <p className="text-xs font-mono text-black/60">No effects. The vocoder goes straight to the output.</p>
+      )}
+      {effects.map((effect, index) => (
+        <div key={effect.id} className={`flex flex-col space-y-2 p-3 rounded-md bg-white/40 ${effect.bypass ? 'opacity-60' : ''}`}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-bold uppercase tracking-widest">
+              {index + 1}. {effectLabels[effect.type]}
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => moveEffect(index, -1)}
+                disabled={index === 0}
+                className={buttonClasses}
+                aria-label={`Move ${effectLabels[effect.type]} up`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveEffect(index, 1)}
+                disabled={index === effects.length - 1}
+                className={buttonClasses}
+                aria-label={`Move ${effectLabels[effect.type]} down`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => updateEffect(index, 'bypass', !effect.bypass)}
+                className={toggleClasses(effect.bypass)}
+                aria-pressed={effect.bypass}
+              >
+                Bypass
+              </button>
+              <button onClick={() => removeEffect(index)} className={buttonClasses} aria-label={`Remove ${effectLabels[effect.type]}`}>
+                ✕
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+            <Slider
+              label="Mix"
+              min={0}
+              max={1}
+              step={0.01}
+              value={effect.mix}
+              onChange={(value) => updateEffect(index, 'mix', value)}
+              formatValue={formatPercent}
+              color={color}
+            />
+            {effect.type === 'delay' && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => updateEffect(index, 'sync', !effect.sync)}
+                  className={toggleClasses(effect.sync)}
+                  aria-pressed={effect.sync}
+                  title="Take the delay time from the modulation tempo"
+                >
+                  Sync
+                </button>
+                {effect.sync ? (
+                  <select
+                    value={effect.division}
+                    onChange={(e) => updateEffect(index, 'division', e.target.value as LfoDivision)}
+                    className="flex-1 h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+                    aria-label="Delay division"
+                  >
+                    {divisions.map(division => (
+                      <option key={division} value={division}>{division}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <div className="flex-1">
+                    <Slider
+                      label="Time"
+                      min={10}
+                      max={2000}
+                      step={1}
+                      value={effect.timeMs}
+                      onChange={(value) => updateEffect(index, 'timeMs', value)}
+                      formatValue={formatMs}
+                      color={color}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            {controls[effect.type].map(control => (
+              <Slider
+                key={control.key}
+                label={control.label}
+                min={control.min}
+                max={control.max}
+                step={control.step}
+                value={(effect as unknown as Record<string, number>)[control.key]}
+                onChange={(value) => updateEffect(index, control.key, value)}
+                formatValue={control.format}
+                color={color}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={typeToAdd}
+          onChange={(e) => setTypeToAdd(e.target.value as EffectType)}
+          className="flex-1 min-w-0 h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+          aria-label="Effect to add"
+        >
+          {effectTypes.map(type => (
+            <option key={type} value={type}>{effectLabels[type]}</option>
+          ))}
+        </select>
+        <button onClick={() => onChange([...effects, createEffect(typeToAdd)], 'add')} className={buttonClasses}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+
+interface HistoryPanelProps {
+  labels: string[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (index: number) => void;
+}
+
+const buttonClasses = 'flex-1 h-8 px-3 rounded-md bg-white text-black text-xs font-bold uppercase tracking-wider shadow-md hover:bg-black/10 disabled:opacity-50';
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ labels, index, canUndo, canRedo, onUndo, onRedo, onSelect }) => (
+  <div className="w-full flex flex-col space-y-2 text-black select-none">
+    <div className="flex gap-2">
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClasses} title="Undo (Ctrl+Z)">
+        Undo
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClasses} title="Redo (Ctrl+Shift+Z)">
+        Redo
+      </button>
+    </div>
+    <ol className="max-h-32 overflow-y-auto rounded-md bg-white border-2 border-black/20 text-xs font-mono" aria-label="History">
+      {/* Newest first, so the latest changes stay in view. */}
+      {labels.map((label, i) => ({ label, i })).reverse().map(({ label, i }) => (
+        <li key={i}>
+          <button
+            onClick={() => onSelect(i)}
+            className={`w-full text-left px-2 py-1 ${i === index ? 'bg-black text-white' : i > index ? 'text-black/40 hover:bg-black/10' : 'hover:bg-black/10'}`}
+            aria-current={i === index ? 'step' : undefined}
+          >
+            {label}
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
@@ -0,0 +1,214 @@
+import React from 'react';
+import type { LfoConfig, LfoDivision, LfoShape, ModDestination, ModEnvelopeConfig, ModSource, ModulationConfig } from '../types';
+import { SegmentedControl } from './SegmentedControl';
+import { Slider } from './Slider';
+
+interface ModulationMatrixProps {
+  modulation: ModulationConfig;
+  /** Receives the whole new config, and a key naming what changed, for undo history. */
+  onChange: (modulation: ModulationConfig, key: string) => void;
+  color: string;
+}
+
+const shapeOptions: { value: LfoShape; label: string }[] = [
+  { value: 'sine', label: 'Sine' },
+  { value: 'triangle', label: 'Tri' },
+  { value: 'saw', label: 'Saw' },
+  { value: 'square', label: 'Sqr' },
+  { value: 'random', label: 'S&H' },
+];
+
+const divisions: LfoDivision[] = ['2/1', '1/1', '1/2', '1/4', '1/8', '1/16', '1/4t', '1/8t', '1/4d', '1/8d'];
+
+const sources: { value: ModSource; label: string }[] = [
+  { value: 'lfo1', label: 'LFO 1' },
+  { value: 'lfo2', label: 'LFO 2' },
+  { value: 'envelope', label: 'Env' },
+];
+
+const destinations: { value: ModDestination; label: string; title: string }[] = [
+  { value: 'pitch', label: 'Pitch', title: 'Carrier pitch, ±12 semitones at full depth' },
+  { value: 'size', label: 'Formant', title: 'Formant shift, ±1 octave at full depth' },
+  { value: 'carrierNoise', label: 'Robot', title: 'Carrier noise mix, ±1 at full depth' },
+  { value: 'q', label: 'Band Q', title: 'Filter bank Q, halved to doubled at full depth' },
+  { value: 'gain', label: 'Gain', title: 'Output gain, ±12 dB at full depth' },
+];
+
+const ranges = {
+  rateHz: { min: 0.05, max: 20 },
+  phase: { min: 0, max: 1 },
+  attackMs: { min: 1, max: 500 },
+  releaseMs: { min: 1, max: 2000 },
+  sensitivityDb: { min: 0, max: 36 },
+  tempo: { min: 40, max: 240 },
+};
+
+export const ModulationMatrix: React.FC<ModulationMatrixProps> = ({ modulation, onChange, color }) => {
+  const changeLfo = <K extends keyof LfoConfig>(lfo: 'lfo1' | 'lfo2', key: K, value: LfoConfig[K]) => {
+    onChange({ ...modulation, [lfo]: { ...modulation[lfo], [key]: value } }, `${lfo}.${key}`);
+  };
+
+  const changeEnvelope = <K extends keyof ModEnvelopeConfig>(key: K, value: ModEnvelopeConfig[K]) => {
+    onChange({ ...modulation, envelope: { ...modulation.envelope, [key]: value } }, `envelope.${key}`);
+  };
+
+  const depthOf = (source: ModSource, destination: ModDestination) =>
+    modulation.routes.find(route => route.source === source && route.destination === destination)?.depth ?? 0;
+
+  /** Sets one cell of the matrix. Cells at zero depth are dropped from the routes. */
+  const changeDepth = (source: ModSource, destination: ModDestination, depth: number) => {
+    const others = modulation.routes.filter(route => route.source !== source || route.destination !== destination);
+    const routes = depth === 0 ? others : [...others, { source, destination, depth }];
+    onChange({ ...modulation, routes }, `routes.${source}.${destination}`);
+  };
+
+  const renderLfo = (lfo: 'lfo1' | 'lfo2', label: string) => {
+    const config = modulation[lfo];
+    return (
+      <div className="flex flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold uppercase tracking-widest">{label}</span>
+          <button
+            onClick={() => changeLfo(lfo, 'sync', !config.sync)}
+            className={`text-xs font-bold uppercase tracking-wider px-2 py-1 rounded ${config.sync ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`}
+            aria-pressed={config.sync}
+            title="Lock the LFO to the tempo"
+          >
+            Sync
+          </button>
+        </div>
+        <SegmentedControl
+          label={`${label} shape`}
+          options={shapeOptions}
+          value={config.shape}
+          onChange={(shape) => changeLfo(lfo, 'shape', shape)}
+        />
+        {config.sync ? (
+          <select
+            value={config.division}
+            onChange={(e) => changeLfo(lfo, 'division', e.target.value as LfoDivision)}
+            className="h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+            aria-label={`${label} division`}
+          >
+            {divisions.map(division => (
+              <option key={division} value={division}>{division}</option>
+            ))}
+          </select>
+        ) : (
+          <Slider
+            label="Rate"
+            min={ranges.rateHz.min}
+            max={ranges.rateHz.max}
+            step={0.05}
+            value={config.rateHz}
+            onChange={(value) => changeLfo(lfo, 'rateHz', value)}
+            formatValue={(value) => `${value.toFixed(2)} Hz`}
+            color={color}
+          />
+        )}
+        <Slider
+          label="Phase"
+          min={ranges.phase.min}
+          max={ranges.phase.max}
+          step={0.01}
+          value={config.phase}
+          onChange={(value) => changeLfo(lfo, 'phase', value)}
+          formatValue={(value) => `${Math.round(value * 360)}°`}
+          color={color}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-4 text-black select-none">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        {renderLfo('lfo1', 'LFO 1')}
+        {renderLfo('lfo2', 'LFO 2')}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        <Slider
+          label="Env Attack"
+          min={ranges.attackMs.min}
+          max={ranges.attackMs.max}
+          step={1}
+          value={modulation.envelope.attackMs}
+          onChange={(value) => changeEnvelope('attackMs', value)}
+          formatValue={(value) => `${value.toFixed(0)} ms`}
+          color={color}
+        />
+        <Slider
+          label="Env Release"
+          min={ranges.releaseMs.min}
+          max={ranges.releaseMs.max}
+          step={1}
+          value={modulation.envelope.releaseMs}
+          onChange={(value) => changeEnvelope('releaseMs', value)}
+          formatValue={(value) => `${value.toFixed(0)} ms`}
+          color={color}
+        />
+        <Slider
+          label="Env Sensitivity"
+          min={ranges.sensitivityDb.min}
+          max={ranges.sensitivityDb.max}
+          step={0.5}
+          value={modulation.envelope.sensitivityDb}
+          onChange={(value) => changeEnvelope('sensitivityDb', value)}
+          formatValue={(value) => `+${value.toFixed(1)} dB`}
+          color={color}
+        />
+        <Slider
+          label="Tempo"
+          min={ranges.tempo.min}
+          max={ranges.tempo.max}
+          step={1}
+          value={modulation.tempo}
+          onChange={(value) => onChange({ ...modulation, tempo: value }, 'tempo')}
+          formatValue={(value) => `${value.toFixed(0)} BPM`}
+          color={color}
+        />
+      </div>
+
+      <table className="w-full text-xs font-mono" aria-label="Modulation matrix">
+        <thead>
+          <tr>
+            <th className="text-left font-bold uppercase tracking-wider">Depth %</th>
+            {destinations.map(destination => (
+              <th key={destination.value} className="font-bold uppercase tracking-wider" title={destination.title}>
+                {destination.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sources.map(source => (
+            <tr key={source.value}>
+              <th className="text-left font-bold uppercase tracking-wider">{source.label}</th>
+              {destinations.map(destination => {
+                const depth = depthOf(source.value, destination.value);
+                return (
+                  <td key={destination.value} className="p-1">
+                    <input
+                      type="number"
+                      min={-100}
+                      max={100}
+                      step={5}
+                      value={Math.round(depth * 100)}
+                      onChange={(e) => {
+                        const percent = parseFloat(e.target.value);
+                        changeDepth(source.value, destination.value, Number.isFinite(percent) ? Math.max(-100, Math.min(100, percent)) / 100 : 0);
+                      }}
+                      className={`w-full h-8 px-1 rounded-md border-2 text-center ${depth !== 0 ? 'bg-black text-white border-black' : 'bg-white border-black/20'}`}
+                      aria-label={`${source.label} to ${destination.label} depth`}
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import type { MeterReading } from '../types';
+
+interface OutputMeterProps {
+  getReading: () => MeterReading | null;
+  onResetLoudness: () => void;
+}
+
+// The bars span this range, in dBFS.
+const floorDb = -60;
+// Peaks fall back this many dB per update, so short hits stay readable.
+const peakFalloffDb = 1.5;
+const pollMs = 100;
+
+const formatLufs = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '–';
+
+const barWidth = (db: number) => `${Math.max(0, Math.min(1, (db - floorDb) / -floorDb)) * 100}%`;
+
+const barColor = (db: number) => db > -0.1 ? 'bg-red-600' : db > -6 ? 'bg-yellow-400' : 'bg-green-600';
+
+/**
+ * Peak bars for both sides, momentary, short-term and integrated loudness and
+ * limiter gain reduction. Polls the reading rather than re-rendering on every
+ * message from the worklet. The clip light stays on until clicked.
+ */
+export const OutputMeter: React.FC<OutputMeterProps> = ({ getReading, onResetLoudness }) => {
+  const [reading, setReading] = useState<MeterReading | null>(null);
+  const [peaks, setPeaks] = useState<[number, number]>([-Infinity, -Infinity]);
+  const [isClipped, setIsClipped] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const next = getReading();
+      if (!next) return;
+      setReading(next);
+      setPeaks(previous => [
+        Math.max(next.peakDb[0], previous[0] - peakFalloffDb),
+        Math.max(next.peakDb[1], previous[1] - peakFalloffDb),
+      ]);
+      if (next.peakDb[0] > -0.1 || next.peakDb[1] > -0.1) setIsClipped(true);
+    }, pollMs);
+    return () => clearInterval(interval);
+  }, [getReading]);
+
+  const gainReduction = reading && Number.isFinite(reading.gainReductionDb) ? -reading.gainReductionDb : 0;
+
+  return (
+    <div className="w-full flex flex-col space-y-2 text-black select-none">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 flex flex-col gap-1" aria-label="Output peak level">
+          {peaks.map((peak, side) => (
+            <div key={side} className="relative h-3 rounded-sm bg-black/80 overflow-hidden">
+              <div className={`absolute inset-y-0 left-0 ${barColor(peak)}`} style={{ width: barWidth(peak) }}></div>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setIsClipped(false)}
+          className={`w-12 h-8 shrink-0 rounded text-xs font-bold uppercase tracking-wider ${isClipped ? 'bg-red-600 text-white' : 'bg-black/10 text-black/40'}`}
+          aria-label={isClipped ? 'Output clipped, click to clear' : 'No clipping'}
+          title="Lights when the output reaches full scale. Click to clear."
+        >
+          Clip
+        </button>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-xs font-mono">
+        <span title="Momentary loudness, last 400 ms">M {formatLufs(reading?.momentaryLufs ?? -Infinity)}</span>
+        <span title="Short-term loudness, last 3 s">S {formatLufs(reading?.shortTermLufs ?? -Infinity)}</span>
+        <span title="Integrated loudness since the last reset">I {formatLufs(reading?.integratedLufs ?? -Infinity)}</span>
+        <span title="Limiter gain reduction">GR {gainReduction.toFixed(1)}</span>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-mono text-black/60">LUFS · dB</span>
+        <button
+          onClick={onResetLoudness}
+          className="text-xs font-bold uppercase tracking-wider underline"
+        >
+          Reset integrated
+        </button>
+      </div>
+    </div>
+  );
+};
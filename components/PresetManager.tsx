@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import type { Preset } from '../types';
+
+interface PresetManagerProps {
+  presets: Preset[];
+  selectedPreset: Preset | null;
+  isModified: boolean;
+  onLoad: (id: string) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onCopyLink: () => Promise<boolean>;
+  error: string | null;
+}
+
+const buttonClasses = 'h-8 px-3 rounded-md bg-white text-black text-xs font-bold uppercase tracking-wider shadow-md hover:bg-black/10 disabled:opacity-50';
+
+export const PresetManager: React.FC<PresetManagerProps> = ({
+  presets,
+  selectedPreset,
+  isModified,
+  onLoad,
+  onSave,
+  onDelete,
+  onExport,
+  onImport,
+  onCopyLink,
+  error,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const factory = presets.filter(preset => preset.factory);
+  const user = presets.filter(preset => !preset.factory);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    // Allow the same file to be picked again after an error.
+    e.target.value = '';
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saveName?.trim()) {
+      onSave(saveName);
+      setSaveName(null);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (await onCopyLink()) {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-2 text-black select-none">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedPreset?.id ?? ''}
+          onChange={(e) => e.target.value && onLoad(e.target.value)}
+          className="flex-1 min-w-0 h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+          aria-label="Preset"
+        >
+          {!selectedPreset && <option value="">Choose a preset…</option>}
+          <optgroup label="Factory">
+            {factory.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </optgroup>
+          {user.length > 0 && (
+            <optgroup label="User">
+              {user.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isModified && (
+          <span className="text-xs font-mono bg-black/10 px-2 rounded" title="The current sound differs from the selected preset">
+            edited
+          </span>
+        )}
+      </div>
+
+      {saveName !== null ? (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            className="flex-1 min-w-0 h-8 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+            placeholder="Preset name"
+            aria-label="Preset name"
+            autoFocus
+          />
+          <button type="submit" disabled={!saveName.trim()} className={buttonClasses}>Save</button>
+          <button type="button" onClick={() => setSaveName(null)} className={buttonClasses}>Cancel</button>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setSaveName(selectedPreset && !selectedPreset.factory ? selectedPreset.name : '')}
+            className={buttonClasses}
+          >
+            Save
+          </button>
+          <button
+            onClick={() => selectedPreset && onDelete(selectedPreset.id)}
+            disabled={!selectedPreset || selectedPreset.factory}
+            className={buttonClasses}
+          >
+            Delete
+          </button>
+          <button onClick={onExport} className={buttonClasses}>Export</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClasses}>Import</button>
+          <button onClick={handleCopyLink} className={buttonClasses}>
+            {linkCopied ? 'Copied!' : 'Copy Link'}
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {error && (
+        <p className="text-xs font-bold text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
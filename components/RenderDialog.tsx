@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import type { RenderSettings, ExportFormat, ExportSettings } from '../types';
+import { Slider } from './Slider';
+import { SegmentedControl } from './SegmentedControl';
+import { isFormatSupported } from '../utils/audioExport';
+
+interface RenderDialogProps {
+  initialSettings: RenderSettings;
+  /** How many takes a batch render covers; left out for the current recording. */
+  takeCount?: number;
+  onRender: (settings: RenderSettings) => void;
+  onClose: () => void;
+}
+
+const sampleRateOptions: { value: string; label: string }[] = [
+  { value: 'source', label: 'Source' },
+  { value: '22050', label: '22.05k' },
+  { value: '44100', label: '44.1k' },
+  { value: '48000', label: '48k' },
+  { value: '96000', label: '96k' },
+];
+
+const channelOptions: { value: '1' | '2'; label: string }[] = [
+  { value: '1', label: 'Mono' },
+  { value: '2', label: 'Stereo' },
+];
+
+const formatOptions: { value: ExportFormat; label: string }[] = [
+  { value: 'wav', label: 'WAV' },
+  { value: 'aiff', label: 'AIFF' },
+  { value: 'flac', label: 'FLAC' },
+  { value: 'webm', label: 'WebM' },
+  { value: 'ogg', label: 'Ogg' },
+];
+
+const bitDepthOptions: { value: '16' | '24' | '32'; label: string }[] = [
+  { value: '16', label: '16-bit' },
+  { value: '24', label: '24-bit' },
+  { value: '32', label: '32-bit float' },
+];
+
+// Common delivery targets: broadcast (EBU R128), podcasts and streaming.
+const loudnessOptions: { value: string; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: '-23', label: '-23' },
+  { value: '-16', label: '-16' },
+  { value: '-14', label: '-14' },
+];
+
+const isCompressed = (format: ExportFormat) => format === 'webm' || format === 'ogg';
+
+const dialogColor = '#16a34a'; // green-600
+
+export const RenderDialog: React.FC<RenderDialogProps> = ({ initialSettings, takeCount, onRender, onClose }) => {
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(initialSettings);
+
+  const update = <K extends keyof RenderSettings>(key: K, value: RenderSettings[K]) => {
+    setRenderSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateExport = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) => {
+    setRenderSettings(prev => {
+      const next = { ...prev.export, [key]: value };
+      // Only WAV stores float samples; the other lossless formats fall back to 24-bit.
+      if (next.format !== 'wav' && next.bitDepth === 32) next.bitDepth = 24;
+      return { ...prev, export: next };
+    });
+  };
+
+  const exportSettings = renderSettings.export;
+  const availableFormats = formatOptions.filter(option => isFormatSupported(option.value));
+  const availableBitDepths = exportSettings.format === 'wav' ? bitDepthOptions : bitDepthOptions.slice(0, 2);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md max-h-full overflow-y-auto bg-[#D9D9D9] rounded-lg shadow-xl p-4 space-y-4 text-black"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="render-dialog-title"
+      >
+        <h3 id="render-dialog-title" className="text-sm font-bold uppercase tracking-widest text-center">
+          {takeCount ? `Render ${takeCount} ${takeCount === 1 ? 'Take' : 'Takes'}` : 'Render Settings'}
+        </h3>
+
+        <div className="space-y-2">
+          <label className="font-bold text-xs uppercase tracking-wider">Sample Rate</label>
+          <SegmentedControl
+            label="Sample rate"
+            options={sampleRateOptions}
+            value={renderSettings.sampleRate === null ? 'source' : String(renderSettings.sampleRate)}
+            onChange={(value) => update('sampleRate', value === 'source' ? null : parseInt(value, 10))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="font-bold text-xs uppercase tracking-wider">Channels</label>
+          <SegmentedControl
+            label="Channels"
+            options={channelOptions}
+            value={String(renderSettings.channels) as '1' | '2'}
+            onChange={(value) => update('channels', value === '1' ? 1 : 2)}
+          />
+        </div>
+
+        <Slider
+          label="Loops"
+          min={1}
+          max={16}
+          step={1}
+          value={renderSettings.loopCount}
+          onChange={(value) => update('loopCount', value)}
+          color={dialogColor}
+          formatValue={(value) => `${value.toFixed(0)}x`}
+        />
+        <Slider
+          label="Tail"
+          min={0}
+          max={5}
+          step={0.1}
+          value={renderSettings.tailSeconds}
+          onChange={(value) => update('tailSeconds', value)}
+          color={dialogColor}
+          formatValue={(value) => `${value.toFixed(1)}s`}
+        />
+
+        <div className="space-y-2">
+          <label className="font-bold text-xs uppercase tracking-wider">Loudness (LUFS)</label>
+          <SegmentedControl
+            label="Loudness target"
+            options={loudnessOptions}
+            value={renderSettings.loudnessTarget === null ? 'off' : String(renderSettings.loudnessTarget)}
+            onChange={(value) => update('loudnessTarget', value === 'off' ? null : parseFloat(value))}
+          />
+        </div>
+
+        <label className={`flex items-center gap-2 font-bold text-xs uppercase tracking-wider cursor-pointer ${renderSettings.loudnessTarget !== null ? 'opacity-40' : ''}`}>
+          <input
+            type="checkbox"
+            checked={renderSettings.normalize}
+            disabled={renderSettings.loudnessTarget !== null}
+            onChange={(e) => update('normalize', e.target.checked)}
+            className="w-4 h-4 accent-green-600"
+          />
+          Normalise to -1 dBFS
+        </label>
+
+        <div className="space-y-2">
+          <label className="font-bold text-xs uppercase tracking-wider">Format</label>
+          <SegmentedControl
+            label="Format"
+            options={availableFormats}
+            value={exportSettings.format}
+            onChange={(value) => updateExport('format', value)}
+          />
+        </div>
+
+        {isCompressed(exportSettings.format) ? (
+          <p className="text-xs text-black/60">Compressed formats are encoded in real time, so they take as long as the render plays.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="font-bold text-xs uppercase tracking-wider">Bit Depth</label>
+              <SegmentedControl
+                label="Bit depth"
+                options={availableBitDepths}
+                value={String(exportSettings.bitDepth) as '16' | '24' | '32'}
+                onChange={(value) => updateExport('bitDepth', parseInt(value, 10) as ExportSettings['bitDepth'])}
+              />
+            </div>
+
+            <label className={`flex items-center gap-2 font-bold text-xs uppercase tracking-wider cursor-pointer ${exportSettings.bitDepth === 32 ? 'opacity-40' : ''}`}>
+              <input
+                type="checkbox"
+                checked={exportSettings.dither}
+                disabled={exportSettings.bitDepth === 32}
+                onChange={(e) => updateExport('dither', e.target.checked)}
+                className="w-4 h-4 accent-green-600"
+              />
+              Dither
+            </label>
+
+            <label className="flex items-center gap-2 font-bold text-xs uppercase tracking-wider cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exportSettings.embedMetadata}
+                onChange={(e) => updateExport('embedMetadata', e.target.checked)}
+                className="w-4 h-4 accent-green-600"
+              />
+              Embed patch metadata
+            </label>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <label htmlFor="render-filename" className="font-bold text-xs uppercase tracking-wider">Filename</label>
+          <input
+            id="render-filename"
+            type="text"
+            value={exportSettings.filenameTemplate}
+            onChange={(e) => updateExport('filenameTemplate', e.target.value)}
+            className="w-full h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm font-mono"
+            placeholder="{name}"
+          />
+          <p className="text-[10px] text-black/60 font-mono">{'{name} {date} {time} {pitch} {formant} {robot} {speed} {format}'}</p>
+          {takeCount !== undefined && (
+            <p className="text-[10px] text-black/60">{'{name}'} is each take's name. Takes other than the current recording render whole, without automation.</p>
+          )}
+        </div>
+
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="flex-1 h-10 rounded-md bg-white text-black font-bold tracking-wider shadow-md hover:bg-black/10"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onRender(renderSettings)}
+            className="flex-1 h-10 rounded-md bg-green-600 hover:bg-green-500 text-white font-bold tracking-wider shadow-md"
+          >
+            Render
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface SegmentedControlProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+export const SegmentedControl = <T extends string>({ label, options, value, onChange }: SegmentedControlProps<T>) => (
+  <div className="flex rounded-md overflow-hidden border-2 border-black/20" role="radiogroup" aria-label={label}>
+    {options.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        className={`flex-1 h-10 text-xs font-bold uppercase tracking-wider transition-colors duration-100 ${value === option.value ? 'bg-black text-white' : 'bg-white text-black hover:bg-black/10'}`}
+        role="radio"
+        aria-checked={value === option.value}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
@@ -8,6 +8,15 @@ interface SliderProps {
   value: number;
   onChange: (value: number) => void;
   color: string;
+  formatValue?: (value: number) => string;
+  /** Controller number currently mapped to this slider, if any. */
+  midiCc?: number;
+  isLearning?: boolean;
+  /** Starts or cancels MIDI learn. The learn button is only shown when this is set. */
+  onLearn?: () => void;
+  /** Locked sliders are left alone by the randomiser. The lock button is only shown when onToggleLock is set. */
+  isLocked?: boolean;
+  onToggleLock?: () => void;
 }
 
 /**
@@ -38,7 +47,9 @@ const darkenColor = (hex: string, percent: number): string => {
 };
 
 
-export const Slider: React.FC<SliderProps> = ({ label, min, max, step, value, onChange, color }) => {
+const defaultFormat = (value: number) => value.toFixed(2);
+
+export const Slider: React.FC<SliderProps> = ({ label, min, max, step, value, onChange, color, formatValue = defaultFormat, midiCc, isLearning = false, onLearn, isLocked = false, onToggleLock }) => {
   const percentage = ((value - min) / (max - min)) * 100;
   const thumbColor = darkenColor(color, 15);
 
@@ -51,8 +62,30 @@ export const Slider: React.FC<SliderProps> = ({ label, min, max, step, value, on
       } as React.CSSProperties}
     >
       <div className="flex justify-between items-baseline">
-        <label className="font-bold text-xs uppercase tracking-wider">{label}</label>
-        <span className="text-sm font-mono bg-black/10 px-2 rounded">{value.toFixed(2)}</span>
+        <div className="flex items-baseline gap-2">
+          <label className="font-bold text-xs uppercase tracking-wider">{label}</label>
+          {onLearn && (
+            <button
+              onClick={onLearn}
+              className={`text-[10px] font-mono px-1 rounded ${isLearning ? 'bg-black text-white animate-pulse' : 'bg-black/10 text-black/60 hover:bg-black/20'}`}
+              aria-label={isLearning ? `Cancel MIDI learn for ${label}` : `MIDI learn ${label}`}
+              aria-pressed={isLearning}
+            >
+              {isLearning ? 'LEARN…' : midiCc !== undefined ? `CC${midiCc}` : 'MIDI'}
+            </button>
+          )}
+          {onToggleLock && (
+            <button
+              onClick={onToggleLock}
+              className={`text-[10px] font-mono px-1 rounded ${isLocked ? 'bg-black text-white' : 'bg-black/10 text-black/60 hover:bg-black/20'}`}
+              aria-label={isLocked ? `Unlock ${label} for the randomiser` : `Lock ${label} against the randomiser`}
+              aria-pressed={isLocked}
+            >
+              {isLocked ? 'LOCKED' : 'LOCK'}
+            </button>
+          )}
+        </div>
+        <span className="text-sm font-mono bg-black/10 px-2 rounded">{formatValue(value)}</span>
       </div>
       <div className="relative w-full flex items-center h-8">
         <div
@@ -0,0 +1,187 @@
+import React from 'react';
+import type { LfoDivision, ScaleType, SequencerConfig, SequencerDirection, SequencerStep } from '../types';
+import { MAX_SEQUENCER_STEPS } from '../utils/patch';
+import { noteNames, quantizeToScale } from '../utils/scales';
+import { SegmentedControl } from './SegmentedControl';
+import { Slider } from './Slider';
+
+interface StepSequencerProps {
+  sequencer: SequencerConfig;
+  /** Receives the whole new config, and a key naming what changed, for undo history. */
+  onChange: (sequencer: SequencerConfig, key: string) => void;
+  /** The shared patch tempo, also used by synced LFOs and effects. */
+  tempo: number;
+  onTempoChange: (tempo: number) => void;
+  color: string;
+}
+
+const divisions: LfoDivision[] = ['1/4', '1/8', '1/16', '1/8t', '1/4t', '1/8d'];
+
+const directionOptions: { value: SequencerDirection; label: string }[] = [
+  { value: 'forward', label: 'Fwd' },
+  { value: 'reverse', label: 'Rev' },
+  { value: 'pingpong', label: 'Ping' },
+  { value: 'random', label: 'Rand' },
+];
+
+const scaleOptions: { value: ScaleType; label: string }[] = [
+  { value: 'chromatic', label: 'Chrom' },
+  { value: 'major', label: 'Major' },
+  { value: 'minor', label: 'Minor' },
+  { value: 'pentatonic', label: 'Penta' },
+  { value: 'blues', label: 'Blues' },
+];
+
+// Gate lengths a step cycles through on click; 0 is a rest.
+const gateCycle = [0, 0.25, 0.5, 0.75, 1];
+
+const ranges = {
+  length: { min: 8, max: MAX_SEQUENCER_STEPS },
+  note: { min: -12, max: 24 },
+  swing: { min: 0, max: 0.5 },
+  glideMs: { min: 5, max: 500 },
+  tempo: { min: 40, max: 240 },
+};
+
+export const StepSequencer: React.FC<StepSequencerProps> = ({ sequencer, onChange, tempo, onTempoChange, color }) => {
+  const change = <K extends keyof SequencerConfig>(key: K, value: SequencerConfig[K]) => {
+    onChange({ ...sequencer, [key]: value }, key);
+  };
+
+  const changeStep = <K extends keyof SequencerStep>(index: number, key: K, value: SequencerStep[K]) => {
+    const steps = sequencer.steps.map((step, i) => i === index ? { ...step, [key]: value } : step);
+    onChange({ ...sequencer, steps }, `steps.${index}.${key}`);
+  };
+
+  const nextGate = (gate: number) => gateCycle[(gateCycle.findIndex(value => value >= gate) + 1) % gateCycle.length];
+
+  const noteName = (note: number) => {
+    const snapped = quantizeToScale(sequencer.root + note, sequencer.scale, sequencer.root);
+    return `${noteNames[((snapped % 12) + 12) % 12]}${Math.floor(snapped / 12) + 2}`;
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-4 text-black select-none">
+      <div className="flex gap-1 overflow-x-auto pb-1" role="group" aria-label="Steps">
+        {sequencer.steps.slice(0, sequencer.length).map((step, i) => (
+          <div key={i} className={`flex flex-col items-center gap-1 shrink-0 w-8 ${i % 4 === 0 ? 'bg-black/10' : ''} rounded`}>
+            <span className="text-[10px] font-mono">{noteName(step.note)}</span>
+            <input
+              type="range"
+              min={ranges.note.min}
+              max={ranges.note.max}
+              step={1}
+              value={step.note}
+              onChange={(e) => changeStep(i, 'note', parseInt(e.target.value, 10))}
+              className="h-20 w-4"
+              style={{ writingMode: 'vertical-lr', direction: 'rtl', accentColor: color }}
+              aria-label={`Step ${i + 1} note`}
+            />
+            <button
+              onClick={() => changeStep(i, 'gate', nextGate(step.gate))}
+              className="w-6 h-6 rounded border-2 border-black/20 bg-white overflow-hidden flex items-end"
+              aria-label={`Step ${i + 1} gate, ${Math.round(step.gate * 100)}%`}
+              title="Gate length, click to change"
+            >
+              <span className="w-full" style={{ height: `${step.gate * 100}%`, backgroundColor: color }} />
+            </button>
+            <button
+              onClick={() => changeStep(i, 'glide', !step.glide)}
+              className={`w-6 h-5 rounded text-[10px] font-bold ${step.glide ? 'bg-black text-white' : 'bg-black/10 hover:bg-black/20'}`}
+              aria-pressed={step.glide}
+              aria-label={`Step ${i + 1} glide`}
+              title="Glide into this step"
+            >
+              G
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
+        <Slider
+          label="Steps"
+          min={ranges.length.min}
+          max={ranges.length.max}
+          step={1}
+          value={sequencer.length}
+          onChange={(value) => change('length', value)}
+          formatValue={(value) => value.toFixed(0)}
+          color={color}
+        />
+        <Slider
+          label="Tempo"
+          min={ranges.tempo.min}
+          max={ranges.tempo.max}
+          step={1}
+          value={tempo}
+          onChange={onTempoChange}
+          formatValue={(value) => `${value.toFixed(0)} BPM`}
+          color={color}
+        />
+        <Slider
+          label="Swing"
+          min={ranges.swing.min}
+          max={ranges.swing.max}
+          step={0.01}
+          value={sequencer.swing}
+          onChange={(value) => change('swing', value)}
+          formatValue={(value) => `${Math.round(value * 100)}%`}
+          color={color}
+        />
+        <Slider
+          label="Glide Time"
+          min={ranges.glideMs.min}
+          max={ranges.glideMs.max}
+          step={1}
+          value={sequencer.glideMs}
+          onChange={(value) => change('glideMs', value)}
+          formatValue={(value) => `${value.toFixed(0)} ms`}
+          color={color}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-grow">
+          <SegmentedControl
+            label="Sequence scale"
+            options={scaleOptions}
+            value={sequencer.scale}
+            onChange={(value) => change('scale', value)}
+          />
+        </div>
+        <select
+          value={sequencer.root}
+          onChange={(e) => change('root', parseInt(e.target.value, 10))}
+          className="h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+          aria-label="Sequence root"
+        >
+          {noteNames.map((name, index) => (
+            <option key={name} value={index}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="flex-grow">
+          <SegmentedControl
+            label="Step order"
+            options={directionOptions}
+            value={sequencer.direction}
+            onChange={(value) => change('direction', value)}
+          />
+        </div>
+        <select
+          value={sequencer.division}
+          onChange={(e) => change('division', e.target.value as LfoDivision)}
+          className="h-10 px-2 rounded-md bg-white border-2 border-black/20 text-sm"
+          aria-label="Step length"
+        >
+          {divisions.map(division => (
+            <option key={division} value={division}>{division}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
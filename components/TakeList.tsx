@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import type { Take } from '../types';
+
+interface TakeListProps {
+  takes: Take[];
+  activeId: string | null;
+  auditioningId: string | null;
+  /** Selecting and rendering are locked while recording, live or rendering. */
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onAudition: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onRender: (ids: string[]) => void;
+  error: string | null;
+}
+
+const buttonClasses = 'h-8 px-3 rounded-md bg-white text-black text-xs font-bold uppercase tracking-wider shadow-md hover:bg-black/10 disabled:opacity-50';
+const smallButtonClasses = 'shrink-0 h-6 px-2 rounded bg-white text-black text-[10px] font-bold uppercase tracking-wider shadow hover:bg-black/10 disabled:opacity-50';
+
+const THUMBNAIL_WIDTH = 96;
+const THUMBNAIL_HEIGHT = 24;
+
+/** Draws a take's min/max peaks as one filled outline. */
+const Thumbnail: React.FC<{ peaks: Float32Array }> = ({ peaks }) => {
+  const columns = peaks.length / 2;
+  const y = (value: number) => ((1 - Math.max(-1, Math.min(1, value))) * THUMBNAIL_HEIGHT) / 2;
+  const top = Array.from({ length: columns }, (_, x) => `${x},${y(peaks[x * 2 + 1]).toFixed(1)}`);
+  const bottom = Array.from({ length: columns }, (_, x) => `${columns - 1 - x},${y(peaks[(columns - 1 - x) * 2]).toFixed(1)}`);
+  return (
+    <svg
+      width={THUMBNAIL_WIDTH}
+      height={THUMBNAIL_HEIGHT}
+      viewBox={`0 0 ${Math.max(1, columns - 1)} ${THUMBNAIL_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="shrink-0"
+      aria-hidden="true"
+    >
+      <polygon points={[...top, ...bottom].join(' ')} fill="currentColor" />
+    </svg>
+  );
+};
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export const TakeList: React.FC<TakeListProps> = ({
+  takes,
+  activeId,
+  auditioningId,
+  disabled,
+  onSelect,
+  onAudition,
+  onRename,
+  onDelete,
+  onRender,
+  error,
+}) => {
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  // Deleted takes drop out of the batch on their own.
+  const checked = checkedIds.filter(id => takes.some(take => take.id === id));
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editing?.name.trim()) {
+      onRename(editing.id, editing.name);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-2 text-black select-none">
+      {takes.length === 0 ? (
+        <p className="text-xs text-black/60">Recordings, imported files and the sample are kept here.</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto rounded-md bg-white border-2 border-black/20 text-xs" aria-label="Takes">
+          {takes.map(take => {
+            const isActive = take.id === activeId;
+            return (
+              <li key={take.id} className={`flex items-center gap-2 px-2 py-1 ${isActive ? 'bg-black text-white' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={checked.includes(take.id)}
+                  onChange={() => toggleChecked(take.id)}
+                  aria-label={`Include "${take.name}" in the batch render`}
+                />
+                {editing?.id === take.id ? (
+                  <form onSubmit={handleRename} className="flex-1 min-w-0">
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ id: take.id, name: e.target.value })}
+                      onBlur={handleRename}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                      className="w-full h-6 px-1 rounded bg-white border border-black/20 text-black"
+                      aria-label="Take name"
+                      autoFocus
+                    />
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => onSelect(take.id)}
+                    onDoubleClick={() => setEditing({ id: take.id, name: take.name })}
+                    disabled={disabled}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left disabled:cursor-not-allowed"
+                    aria-current={isActive ? 'true' : undefined}
+                    title="Use as the modulator, double-click to rename"
+                  >
+                    <Thumbnail peaks={take.peaks} />
+                    <span className="flex-1 truncate font-bold">{take.name}</span>
+                    <span className="font-mono opacity-60">{formatDuration(take.buffer.duration)}</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => onAudition(take.id)}
+                  className={smallButtonClasses}
+                  aria-pressed={take.id === auditioningId}
+                  aria-label={`${take.id === auditioningId ? 'Stop' : 'Audition'} "${take.name}"`}
+                >
+                  {take.id === auditioningId ? 'Stop' : 'Play'}
+                </button>
+                <button
+                  onClick={() => setEditing({ id: take.id, name: take.name })}
+                  className={smallButtonClasses}
+                  aria-label={`Rename "${take.name}"`}
+                >
+                  Name
+                </button>
+                <button
+                  onClick={() => onDelete(take.id)}
+                  className={smallButtonClasses}
+                  aria-label={`Delete "${take.name}"`}
+                >
+                  Del
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setCheckedIds(checked.length === takes.length ? [] : takes.map(take => take.id))}
+          disabled={takes.length === 0}
+          className={buttonClasses}
+        >
+          {checked.length === takes.length && takes.length > 0 ? 'Select None' : 'Select All'}
+        </button>
+        <button
+          onClick={() => onRender(checked)}
+          disabled={disabled || checked.length === 0}
+          className={buttonClasses}
+          title="Render each selected take with the current patch"
+        >
+          Render {checked.length || ''} {checked.length === 1 ? 'Take' : 'Takes'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
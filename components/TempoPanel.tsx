@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import type { LoopRegion, TimeStretchConfig } from '../types';
+import { barsToRegionSeconds, detectTempo } from '../utils/tempo';
+import { Slider } from './Slider';
+
+interface TempoPanelProps {
+  /** The modulator clip, whose tempo is detected. */
+  buffer: AudioBuffer | null;
+  loopRegion: LoopRegion | null;
+  onLoopRegionChange: (region: LoopRegion) => void;
+  /** The shared patch tempo, also used by synced LFOs, effects and the sequencer. */
+  tempo: number;
+  onTempoChange: (tempo: number) => void;
+  speed: number;
+  speedRange: { min: number; max: number };
+  onSpeedChange: (speed: number) => void;
+  timeStretch: TimeStretchConfig;
+  onTimeStretchChange: <K extends keyof TimeStretchConfig>(key: K, value: TimeStretchConfig[K]) => void;
+  isMetronomeOn: boolean;
+  onToggleMetronome: () => void;
+  isCountInOn: boolean;
+  onToggleCountIn: () => void;
+  disabled: boolean;
+  color: string;
+}
+
+const barOptions = [1, 2, 4];
+
+// Below this the clip has no steady pulse and the estimate is shown as a guess.
+const CONFIDENT_TEMPO = 0.3;
+
+const ranges = {
+  tempo: { min: 40, max: 240 },
+  grainMs: { min: 20, max: 100 },
+};
+
+const toggleClasses = (isOn: boolean) =>
+  `text-xs font-bold uppercase tracking-wider px-2 py-1 rounded disabled:opacity-50 ${isOn ? 'bg-black text-white' : 'bg-black/10 text-black hover:bg-black/20'}`;
+const buttonClasses = 'h-8 px-3 rounded-md bg-white text-black text-xs font-bold uppercase tracking-wider shadow-md hover:bg-black/10 disabled:opacity-50';
+
+export const TempoPanel: React.FC<TempoPanelProps> = ({
+  buffer,
+  loopRegion,
+  onLoopRegionChange,
+  tempo,
+  onTempoChange,
+  speed,
+  speedRange,
+  onSpeedChange,
+  timeStretch,
+  onTimeStretchChange,
+  isMetronomeOn,
+  onToggleMetronome,
+  isCountInOn,
+  onToggleCountIn,
+  disabled,
+  color,
+}) => {
+  const estimate = useMemo(() => buffer && detectTempo(buffer), [buffer]);
+  // Halving or doubling the estimate only holds for the clip it was chosen on.
+  const [octave, setOctave] = useState<{ buffer: AudioBuffer | null; scale: number }>({ buffer: null, scale: 1 });
+  const scale = octave.buffer === buffer ? octave.scale : 1;
+  const clipTempo = estimate ? estimate.bpm * scale : null;
+
+  const fitsBars = (bars: number) =>
+    !!buffer && !!loopRegion && loopRegion.start + barsToRegionSeconds(bars, tempo, speed) <= buffer.duration;
+
+  const loopBars = (bars: number) => {
+    if (!loopRegion) return;
+    onLoopRegionChange({ start: loopRegion.start, end: loopRegion.start + barsToRegionSeconds(bars, tempo, speed) });
+  };
+
+  const startAtOnset = () => {
+    if (!estimate || !loopRegion || !buffer) return;
+    const length = loopRegion.end - loopRegion.start;
+    onLoopRegionChange({ start: estimate.firstOnset, end: Math.min(buffer.duration, estimate.firstOnset + length) });
+  };
+
+  const matchSpeed = () => {
+    if (!clipTempo) return;
+    onSpeedChange(Math.max(speedRange.min, Math.min(speedRange.max, tempo / clipTempo)));
+  };
+
+  return (
+    <div className="w-full flex flex-col space-y-4 text-black select-none">
+      <Slider
+        label="Project Tempo"
+        min={ranges.tempo.min}
+        max={ranges.tempo.max}
+        step={1}
+        value={tempo}
+        onChange={onTempoChange}
+        formatValue={(value) => `${value.toFixed(0)} BPM`}
+        color={color}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold uppercase tracking-wider">Clip</span>
+        <span
+          className={`text-xs font-mono bg-black/10 px-2 rounded ${estimate && estimate.confidence < CONFIDENT_TEMPO ? 'opacity-50' : ''}`}
+          title={estimate ? `Confidence ${Math.round(estimate.confidence * 100)}%, first onset at ${estimate.firstOnset.toFixed(2)} s` : undefined}
+        >
+          {clipTempo ? `${clipTempo.toFixed(1)} BPM` : buffer ? 'No steady tempo' : 'No clip'}
+        </span>
+        <button
+          onClick={() => setOctave({ buffer, scale: scale / 2 })}
+          disabled={!clipTempo || clipTempo / 2 < ranges.tempo.min}
+          className={toggleClasses(false)}
+          aria-label="Halve the detected tempo"
+        >
+          ÷2
+        </button>
+        <button
+          onClick={() => setOctave({ buffer, scale: scale * 2 })}
+          disabled={!clipTempo || clipTempo * 2 > ranges.tempo.max}
+          className={toggleClasses(false)}
+          aria-label="Double the detected tempo"
+        >
+          ×2
+        </button>
+        <button
+          onClick={() => clipTempo && onTempoChange(Math.round(clipTempo))}
+          disabled={!clipTempo}
+          className={buttonClasses}
+          title="Set the project tempo to the clip's"
+        >
+          Use Tempo
+        </button>
+        <button
+          onClick={matchSpeed}
+          disabled={!clipTempo || disabled}
+          className={buttonClasses}
+          title="Play the clip at the project tempo. Turn on time-stretch to keep its pitch."
+        >
+          Match Speed
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold uppercase tracking-wider">Loop</span>
+        {barOptions.map(bars => (
+          <button
+            key={bars}
+            onClick={() => loopBars(bars)}
+            disabled={disabled || !fitsBars(bars)}
+            className={buttonClasses}
+            title={`Loop ${bars} ${bars === 1 ? 'bar' : 'bars'} at the project tempo from the loop start`}
+          >
+            {bars} {bars === 1 ? 'Bar' : 'Bars'}
+          </button>
+        ))}
+        <button
+          onClick={startAtOnset}
+          disabled={disabled || !estimate}
+          className={buttonClasses}
+          title="Move the loop start to the clip's first onset"
+        >
+          From Onset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4 items-center">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onTimeStretchChange('enabled', !timeStretch.enabled)}
+            className={toggleClasses(timeStretch.enabled)}
+            aria-pressed={timeStretch.enabled}
+            title="Change the modulator's speed without shifting its pitch and formants"
+          >
+            Time-Stretch
+          </button>
+          <button
+            onClick={onToggleMetronome}
+            className={toggleClasses(isMetronomeOn)}
+            aria-pressed={isMetronomeOn}
+            title="Click the project tempo while recording and playing. Use headphones to keep it out of the recording."
+          >
+            Metronome
+          </button>
+          <button
+            onClick={onToggleCountIn}
+            className={toggleClasses(isCountInOn)}
+            aria-pressed={isCountInOn}
+            title="Count in one bar before recording starts"
+          >
+            Count-In
+          </button>
+        </div>
+        <div className={timeStretch.enabled ? '' : 'opacity-50'}>
+          <Slider
+            label="Grain"
+            min={ranges.grainMs.min}
+            max={ranges.grainMs.max}
+            step={1}
+            value={timeStretch.grainMs}
+            onChange={(value) => onTimeStretchChange('grainMs', value)}
+            formatValue={(value) => `${value.toFixed(0)} ms`}
+            color={color}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
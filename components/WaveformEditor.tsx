@@ -0,0 +1,178 @@
+import React, { useRef, useEffect, useMemo } from 'react';
+import type { LoopRegion, WaveformEdit } from '../types';
+import { waveformPeaks } from '../utils/bufferEdit';
+
+interface WaveformEditorProps {
+  buffer: AudioBuffer;
+  loopRegion: LoopRegion;
+  onLoopRegionChange: (region: LoopRegion) => void;
+  onSeek: (time: number) => void;
+  getPlaybackPosition: () => number;
+  onEdit: (edit: WaveformEdit) => void;
+  disabled?: boolean;
+}
+
+const editButtons: { edit: WaveformEdit; label: string; title: string }[] = [
+  { edit: 'trim', label: 'Trim', title: 'Keep only the loop region' },
+  { edit: 'normalize', label: 'Normalise', title: 'Scale the whole recording to -1 dBFS' },
+  { edit: 'reverse', label: 'Reverse', title: 'Reverse the loop region' },
+  { edit: 'fadeIn', label: 'Fade In', title: 'Fade in across the loop region' },
+  { edit: 'fadeOut', label: 'Fade Out', title: 'Fade out across the loop region' },
+];
+
+const width = 512;
+const height = 96;
+// How close to a loop marker, in canvas pixels, a press grabs it.
+const HANDLE_GRAB_PX = 8;
+// Pointer travel, in canvas pixels, before a press becomes a drag instead of a seek.
+const DRAG_THRESHOLD_PX = 3;
+
+type DragMode = 'start' | 'end' | 'select' | null;
+
+export const WaveformEditor: React.FC<WaveformEditorProps> = ({
+  buffer,
+  loopRegion,
+  onLoopRegionChange,
+  onSeek,
+  getPlaybackPosition,
+  onEdit,
+  disabled = false,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const dragRef = useRef<{ mode: DragMode; originX: number; moved: boolean }>({ mode: null, originX: 0, moved: false });
+
+  const peaks = useMemo(() => waveformPeaks(buffer, width), [buffer]);
+  const duration = buffer.duration;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const toX = (time: number) => (time / duration) * width;
+
+    const draw = () => {
+      animationFrameRef.current = requestAnimationFrame(draw);
+
+      ctx.fillStyle = 'black';
+      ctx.fillRect(0, 0, width, height);
+
+      const regionStart = toX(loopRegion.start);
+      const regionEnd = toX(loopRegion.end);
+      ctx.fillStyle = 'rgba(50, 205, 50, 0.15)';
+      ctx.fillRect(regionStart, 0, regionEnd - regionStart, height);
+
+      const mid = height / 2;
+      for (let x = 0; x < width; x++) {
+        const inside = x >= regionStart && x <= regionEnd;
+        ctx.fillStyle = inside ? '#32CD32' : '#3f6f3f';
+        const min = peaks[x * 2];
+        const max = peaks[x * 2 + 1];
+        const top = mid - max * mid;
+        ctx.fillRect(x, top, 1, Math.max(1, (max - min) * mid));
+      }
+
+      ctx.fillStyle = '#facc15'; // yellow-400
+      ctx.fillRect(regionStart - 1, 0, 2, height);
+      ctx.fillRect(regionEnd - 1, 0, 2, height);
+
+      ctx.fillStyle = 'white';
+      ctx.fillRect(toX(getPlaybackPosition()), 0, 1, height);
+    };
+    draw();
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [peaks, duration, loopRegion, getPlaybackPosition]);
+
+  const eventToCanvasX = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.max(0, Math.min(width, ((e.clientX - rect.left) / rect.width) * width));
+  };
+  const xToTime = (x: number) => (x / width) * duration;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const x = eventToCanvasX(e);
+    const startX = (loopRegion.start / duration) * width;
+    const endX = (loopRegion.end / duration) * width;
+    let mode: DragMode = 'select';
+    if (Math.abs(x - startX) <= HANDLE_GRAB_PX) mode = 'start';
+    else if (Math.abs(x - endX) <= HANDLE_GRAB_PX) mode = 'end';
+    dragRef.current = { mode, originX: x, moved: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag.mode) return;
+    const x = eventToCanvasX(e);
+    if (!drag.moved && Math.abs(x - drag.originX) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+    const time = xToTime(x);
+    if (drag.mode === 'start') {
+      onLoopRegionChange({ start: Math.min(time, loopRegion.end), end: loopRegion.end });
+    } else if (drag.mode === 'end') {
+      onLoopRegionChange({ start: loopRegion.start, end: Math.max(time, loopRegion.start) });
+    } else {
+      const origin = xToTime(drag.originX);
+      onLoopRegionChange({ start: Math.min(origin, time), end: Math.max(origin, time) });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag.mode && !drag.moved) {
+      onSeek(xToTime(eventToCanvasX(e)));
+    }
+    dragRef.current = { mode: null, originX: 0, moved: false };
+  };
+
+  const regionLength = loopRegion.end - loopRegion.start;
+
+  return (
+    <div className="w-full flex flex-col space-y-2 select-none">
+      <canvas
+        ref={canvasRef}
+        className={`w-full aspect-[16/3] rounded-md shadow-inner touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        aria-label="Waveform. Click to seek, drag to select the loop region, drag the yellow markers to adjust it."
+      />
+      <div className="flex items-center justify-between gap-2 text-black">
+        <span className="text-xs font-mono text-black/60">
+          {loopRegion.start.toFixed(2)}s – {loopRegion.end.toFixed(2)}s ({regionLength.toFixed(2)}s)
+        </span>
+        <button
+          onClick={() => onLoopRegionChange({ start: 0, end: duration })}
+          disabled={disabled}
+          className="text-xs font-bold uppercase tracking-wider underline disabled:opacity-40"
+        >
+          Select all
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {editButtons.map(({ edit, label, title }) => (
+          <button
+            key={edit}
+            onClick={() => onEdit(edit)}
+            disabled={disabled}
+            title={title}
+            className="flex-1 h-8 px-2 rounded-md bg-white text-black text-xs font-bold uppercase tracking-wider shadow-md hover:bg-black/10 disabled:opacity-50"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import type { SibilanceConfig, TrackingConfig } from '../types';
+import { quantizeToScale } from '../utils/scales';
+import { SVF } from './filters';
+import { msToCoeff } from './math';
+
+/** YIN pitch detector running on a 4x decimated copy of the modulator. */
+export class PitchTracker {
+  /** Gliding carrier note the tracked pitch is played at. */
+  note = 48;
+  /** Eases from 0 while the modulator is voiced to 1 while it is not. */
+  unvoiced = 1;
+  private config: TrackingConfig;
+  private decimation = 4;
+  private rate: number;
+  private window = 256;
+  private minLag: number;
+  private maxLag: number;
+  private buf: Float32Array;
+  private diff: Float32Array;
+  private filled = 0;
+  private acc = 0;
+  private accCount = 0;
+  private hop = 64;
+  private sinceAnalysis = 0;
+  private detectedNote = 48;
+  private voiced = false;
+  private target = 48;
+  private targetKey = NaN;
+  private glide: number;
+  private voicing: number;
+
+  constructor(private sampleRate: number) {
+    this.rate = sampleRate / this.decimation;
+    this.minLag = Math.floor(this.rate / 800);
+    this.maxLag = Math.ceil(this.rate / 60);
+    this.buf = new Float32Array(this.window + this.maxLag);
+    this.diff = new Float32Array(this.maxLag + 2);
+    this.voicing = msToCoeff(15, sampleRate);
+    this.configure({ scale: 'off', root: 0, glideMs: 30 });
+  }
+
+  configure(config: TrackingConfig) {
+    this.config = config;
+    this.glide = msToCoeff(config.glideMs, this.sampleRate);
+    this.targetKey = NaN;
+  }
+
+  push(x: number) {
+    this.acc += x;
+    if (++this.accCount < this.decimation) return;
+    const y = this.acc / this.decimation;
+    this.acc = 0;
+    this.accCount = 0;
+    this.buf.copyWithin(0, 1);
+    this.buf[this.buf.length - 1] = y;
+    if (this.filled < this.buf.length) this.filled++;
+    if (++this.sinceAnalysis >= this.hop && this.filled === this.buf.length) {
+      this.sinceAnalysis = 0;
+      this.analyse();
+    }
+  }
+
+  private analyse() {
+    const { buf, diff, window } = this;
+    let energy = 0;
+    for (let j = 0; j < window; j++) energy += buf[j] * buf[j];
+    if (energy / window < 1e-5) {
+      this.voiced = false;
+      return;
+    }
+    // Cumulative mean normalised difference function.
+    diff[0] = 1;
+    let running = 0;
+    for (let tau = 1; tau <= this.maxLag; tau++) {
+      let d = 0;
+      for (let j = 0; j < window; j++) {
+        const delta = buf[j] - buf[j + tau];
+        d += delta * delta;
+      }
+      running += d;
+      diff[tau] = running > 0 ? d * tau / running : 1;
+    }
+    let tau = this.minLag;
+    while (tau < this.maxLag && diff[tau] >= 0.15) tau++;
+    if (tau >= this.maxLag) {
+      this.voiced = false;
+      return;
+    }
+    while (tau + 1 < this.maxLag && diff[tau + 1] < diff[tau]) tau++;
+    // Parabolic interpolation around the minimum for sub-sample accuracy.
+    const a = diff[tau - 1], b = diff[tau], c = diff[tau + 1];
+    const denom = a - 2 * b + c;
+    const refined = denom !== 0 ? tau + 0.5 * (a - c) / denom : tau;
+    this.detectedNote = 69 + 12 * Math.log2(this.rate / refined / 440);
+    this.voiced = true;
+  }
+
+  /** Advances the glide by one sample, with the tracked note shifted by the Pitch parameter. */
+  tick(transpose: number) {
+    const key = this.detectedNote + transpose;
+    if (key !== this.targetKey) {
+      this.targetKey = key;
+      this.target = quantizeToScale(key, this.config.scale, this.config.root);
+    }
+    this.note += (this.target - this.note) * this.glide;
+    this.unvoiced += ((this.voiced ? 0 : 1) - this.unvoiced) * this.voicing;
+  }
+}
+
+/**
+ * Flags sibilant frames by comparing the modulator's energy above 4 kHz to its
+ * total energy, and keeps a high-passed copy of the modulator to mix back in.
+ */
+export class SibilanceDetector {
+  config: SibilanceConfig = { enabled: false, threshold: 0.3, amount: 0.5 };
+  /** How sibilant the current frame is, eased between 0 and 1. */
+  level = 0;
+  private filter: SVF;
+  private hpEnergy = 0;
+  private energy = 0;
+  private energyCoeff: number;
+  private attack: number;
+  private release: number;
+
+  constructor(sampleRate: number) {
+    this.filter = new SVF({ mode: 'hp', num: 2, q: 0.707, fc: 4000 / sampleRate });
+    this.energyCoeff = msToCoeff(10, sampleRate);
+    this.attack = msToCoeff(2, sampleRate);
+    this.release = msToCoeff(30, sampleRate);
+  }
+
+  /** Takes a modulator sample and returns its high-passed hiss, scaled by the sibilance level. */
+  process(x: number) {
+    const hp = this.filter.process(x);
+    this.hpEnergy += (hp * hp - this.hpEnergy) * this.energyCoeff;
+    this.energy += (x * x - this.energy) * this.energyCoeff;
+    // Ignore the noise floor, where the ratio is meaningless.
+    const ratio = this.energy > 1e-6 ? this.hpEnergy / this.energy : 0;
+    const target = ratio > this.config.threshold ? 1 : 0;
+    this.level += (target - this.level) * (target > this.level ? this.attack : this.release);
+    return hp * this.level;
+  }
+}
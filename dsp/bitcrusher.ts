@@ -0,0 +1,31 @@
+/** Sample rate and bit depth reduction for the effects rack. */
+export class Bitcrusher {
+  private held = [0, 0];
+  private counter = 0;
+
+  /**
+   * Crushes one block.
+   * @param input The input channels. A mono input feeds both sides; no input at all is silence.
+   * @param out The output channels, filled in place.
+   * @param bits The bit depth to quantise to.
+   * @param downsample How many samples each held value lasts.
+   */
+  processBlock(input: Float32Array[], out: Float32Array[], bits: number, downsample: number) {
+    const steps = 2 ** (Math.round(bits) - 1);
+    const hold = Math.max(1, Math.round(downsample));
+    let counter = this.counter;
+    for (let i = 0; i < out[0].length; i++) {
+      if (counter === 0) {
+        for (let c = 0; c < out.length; c++) {
+          const channel = input[c] || input[0];
+          this.held[c] = channel ? Math.round(channel[i] * steps) / steps : 0;
+        }
+      }
+      counter = (counter + 1) % hold;
+      for (let c = 0; c < out.length; c++) {
+        out[c][i] = this.held[c];
+      }
+    }
+    this.counter = counter;
+  }
+}
@@ -0,0 +1,253 @@
+import type { CarrierConfig, CarrierWaveform, ChordType, PitchMode } from '../types';
+import { ALL_NOTES_OFF_CC, SUSTAIN_PEDAL_CC, type MidiEvent } from '../utils/midi';
+import type { Rng } from '../utils/randomizer';
+import type { PitchTracker } from './analysis';
+import { lerp, midiToHz, msToCoeff } from './math';
+import type { StepSequencer } from './sequencer';
+
+/** Semitone offsets stacked on the carrier for each chord mode. */
+const chords: Record<ChordType, number[]> = {
+  none: [0],
+  octave: [0, 12],
+  fifth: [0, 7],
+  major: [0, 4, 7],
+  minor: [0, 3, 7],
+  sus4: [0, 5, 7],
+  maj7: [0, 4, 7, 11],
+  min7: [0, 3, 7, 10],
+};
+
+// Feedback of the comb filter that turns white noise into pitched noise bands.
+const combFeedback = 0.95;
+const combInputGain = Math.sqrt(3 * (1 - combFeedback * combFeedback));
+
+interface Operator {
+  /** Phase, 0 to 1. */
+  p: number;
+  /** Frequency ratio to the played note. */
+  detune: number;
+  /** Position in the stereo field, -1 to 1. */
+  pan: number;
+  comb: { buf: Float32Array; idx: number } | null;
+}
+
+/** A detuned stack of oscillators per chord note, panned with their detune. */
+class UnisonStack {
+  left = 0;
+  right = 0;
+  private ops: Operator[] = [];
+  private waveform: CarrierWaveform;
+  private pulseWidth: number;
+  private amp: number;
+
+  constructor(config: CarrierConfig, sampleRate: number, private random: Rng) {
+    this.waveform = config.waveform;
+    this.pulseWidth = config.pulseWidth;
+    const combLength = Math.ceil(sampleRate / 20) + 2;
+    // A supersaw is a saw stack that always has at least seven voices.
+    const unison = config.waveform === 'supersaw' ? Math.max(7, config.unison) : config.unison;
+    for (const interval of chords[config.chord] ?? chords.none) {
+      for (let i = 0; i < unison; i++) {
+        const t = unison > 1 ? i / (unison - 1) : 0.5;
+        this.ops.push({
+          p: random(),
+          detune: 2 ** ((interval + (t * 2 - 1) * config.detune) / 12),
+          pan: t * 2 - 1,
+          comb: config.waveform === 'noise' ? { buf: new Float32Array(combLength), idx: 0 } : null,
+        });
+      }
+    }
+    // Scaled so that the default three voice stack keeps its original level.
+    this.amp = 1 / Math.sqrt(3 * this.ops.length);
+  }
+
+  private oscillate(op: Operator, inc: number) {
+    switch (this.waveform) {
+      case 'saw':
+      case 'supersaw':
+        return 2 * op.p - 1;
+      case 'pulse':
+        return op.p < this.pulseWidth ? 1 : -1;
+      case 'triangle':
+        return 4 * Math.abs(op.p - 0.5) - 1;
+      case 'noise': {
+        const comb = op.comb;
+        const delay = Math.min(comb.buf.length - 2, 1 / inc);
+        let readPos = comb.idx - delay;
+        if (readPos < 0) readPos += comb.buf.length;
+        const i0 = Math.floor(readPos);
+        const i1 = (i0 + 1) % comb.buf.length;
+        const delayed = lerp(comb.buf[i0], comb.buf[i1], readPos - i0);
+        const y = (this.random() * 2 - 1) * combInputGain + combFeedback * delayed;
+        comb.buf[comb.idx] = y;
+        comb.idx = (comb.idx + 1) % comb.buf.length;
+        return y;
+      }
+      default:
+        return op.p < 0.5 ? 1 : -1;
+    }
+  }
+
+  /**
+   * Runs one sample and leaves each side in left and right. Panning keeps
+   * the sum of the sides at twice the mono level, so mono is unchanged.
+   * @param freq The note's frequency as a fraction of the sample rate.
+   * @param spread How far the voices fan out from the centre, 0 to 1.
+   */
+  process(freq: number, spread: number) {
+    let left = 0;
+    let right = 0;
+    for (const op of this.ops) {
+      const inc = freq * op.detune;
+      const val = this.oscillate(op, inc);
+      left += val * (1 - op.pan * spread);
+      right += val * (1 + op.pan * spread);
+      op.p = (op.p + inc) % 1;
+    }
+    this.left = left * this.amp;
+    this.right = right * this.amp;
+  }
+}
+
+const maxVoices = 8;
+const bendRange = 2;
+
+interface Voice {
+  stack: UnisonStack;
+  note: number;
+  velocity: number;
+  gate: boolean;
+  /** Released while the sustain pedal was down. */
+  held: boolean;
+  env: number;
+  age: number;
+}
+
+/**
+ * The internal carrier. Plays either a single stack at the Pitch parameter's
+ * note, a stack following the modulator's tracked pitch, a stack gated and
+ * pitched by the step sequencer, or one stack per held MIDI note with
+ * velocity, pitch bend and sustain pedal.
+ */
+export class PolyCarrier {
+  readonly mode: PitchMode;
+  left = 0;
+  right = 0;
+  private mono: UnisonStack;
+  private voices: Voice[] = [];
+  private bend = 0;
+  private sustain = false;
+  private clock = 0;
+  private dt: number;
+  private voiceAttack: number;
+  private voiceRelease: number;
+  // Level of the sequenced note, following its gate quickly enough for rests to be heard.
+  private sequenceEnv = 0;
+  private sequenceAttack: number;
+  private sequenceRelease: number;
+
+  constructor(config: CarrierConfig, sampleRate: number, private random: Rng, private tracker: PitchTracker, private sequencer: StepSequencer) {
+    this.mode = config.pitchMode;
+    this.dt = 1 / sampleRate;
+    this.voiceAttack = msToCoeff(5, sampleRate);
+    this.voiceRelease = msToCoeff(80, sampleRate);
+    this.sequenceAttack = msToCoeff(3, sampleRate);
+    this.sequenceRelease = msToCoeff(15, sampleRate);
+    this.mono = new UnisonStack(config, sampleRate, random);
+    if (this.mode === 'midi') {
+      for (let i = 0; i < maxVoices; i++) {
+        this.voices.push({ stack: new UnisonStack(config, sampleRate, random), note: 0, velocity: 0, gate: false, held: false, env: 0, age: 0 });
+      }
+    }
+  }
+
+  private allocate(note: number) {
+    let oldest = this.voices[0];
+    for (const voice of this.voices) {
+      if (voice.note === note && (voice.gate || voice.env > 1e-4)) return voice;
+      if (voice.age < oldest.age) oldest = voice;
+    }
+    return this.voices.find((voice) => !voice.gate && voice.env < 1e-4) ?? oldest;
+  }
+
+  midi(event: MidiEvent) {
+    if (this.mode !== 'midi') return;
+    if (event.type === 'noteOn') {
+      const voice = this.allocate(event.note);
+      voice.note = event.note;
+      voice.velocity = event.velocity;
+      voice.gate = true;
+      voice.held = false;
+      voice.age = ++this.clock;
+    } else if (event.type === 'noteOff') {
+      for (const voice of this.voices) {
+        if (voice.note !== event.note || !voice.gate) continue;
+        if (this.sustain) voice.held = true;
+        else voice.gate = false;
+      }
+    } else if (event.type === 'pitchBend') {
+      this.bend = event.value * bendRange;
+    } else if (event.type === 'controlChange' && event.controller === SUSTAIN_PEDAL_CC) {
+      this.sustain = event.value >= 64;
+      if (!this.sustain) {
+        for (const voice of this.voices) {
+          if (voice.held) voice.gate = voice.held = false;
+        }
+      }
+    } else if (event.type === 'controlChange' && event.controller === ALL_NOTES_OFF_CC) {
+      for (const voice of this.voices) voice.gate = voice.held = false;
+    }
+  }
+
+  // Blends noise into both sides, leaves them in left and right and returns the mono mix.
+  private mixNoise(left: number, right: number, noise: number, amount: number) {
+    this.left = lerp(left, noise, amount);
+    this.right = lerp(right, noise, amount);
+    return (this.left + this.right) * 0.5;
+  }
+
+  /**
+   * Runs one sample.
+   * @param pitch The carrier pitch in semitones above E2, or the transpose of the tracked or sequenced pitch.
+   * @param noiseMix How much of the carrier is replaced by noise, 0 to 1.
+   * @param spread How far unison voices fan out across the stereo field, 0 to 1.
+   * @returns The mono mix; the sides are left in left and right.
+   */
+  process(pitch: number, noiseMix: number, spread: number) {
+    if (this.mode === 'track') {
+      // Unvoiced frames (sibilants, breaths, silence) fade over to noise.
+      this.tracker.tick(pitch);
+      this.mono.process(midiToHz(this.tracker.note) * this.dt, spread);
+      return this.mixNoise(this.mono.left, this.mono.right, this.random() - 0.5, Math.max(noiseMix, this.tracker.unvoiced));
+    }
+    if (this.mode === 'sequence') {
+      const sequencer = this.sequencer;
+      sequencer.tick();
+      const target = sequencer.gate ? 1 : 0;
+      this.sequenceEnv += (target - this.sequenceEnv) * (target > this.sequenceEnv ? this.sequenceAttack : this.sequenceRelease);
+      const env = this.sequenceEnv;
+      this.mono.process(midiToHz(36 + sequencer.note + pitch) * this.dt, spread);
+      // Rests silence the noise as well, like an idle keyboard.
+      return this.mixNoise(this.mono.left * env, this.mono.right * env, (this.random() - 0.5) * env, noiseMix);
+    }
+    if (this.mode !== 'midi') {
+      this.mono.process(midiToHz(40 + pitch) * this.dt, spread);
+      return this.mixNoise(this.mono.left, this.mono.right, this.random() - 0.5, noiseMix);
+    }
+    let left = 0;
+    let right = 0;
+    let activity = 0;
+    for (const voice of this.voices) {
+      const target = voice.gate ? voice.velocity : 0;
+      voice.env += (target - voice.env) * (target > voice.env ? this.voiceAttack : this.voiceRelease);
+      if (!voice.gate && voice.env < 1e-5) continue;
+      voice.stack.process(midiToHz(voice.note + this.bend) * this.dt, spread);
+      left += voice.stack.left * voice.env;
+      right += voice.stack.right * voice.env;
+      activity += voice.env;
+    }
+    // Only let the noise through while notes sound, so an idle keyboard is silent.
+    const noise = (this.random() - 0.5) * Math.min(1, activity);
+    return this.mixNoise(left, right, noise, noiseMix);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { EnvelopeFollower, SVF, type SvfMode } from './filters';
+import { msToCoeff } from './math';
+
+const sampleRate = 48000;
+
+// Steady-state gain of a filter for a sine, skipping the first half second while it settles.
+const sineGain = (filter: SVF, freq: number) => {
+  let inPower = 0;
+  let outPower = 0;
+  for (let i = 0; i < sampleRate; i++) {
+    const x = Math.sin((2 * Math.PI * freq * i) / sampleRate);
+    const y = filter.process(x);
+    if (i < sampleRate / 2) continue;
+    inPower += x * x;
+    outPower += y * y;
+  }
+  return Math.sqrt(outPower / inPower);
+};
+
+const svf = (mode: SvfMode, cutoff: number, q: number) => new SVF({ mode, q, fc: cutoff / sampleRate });
+
+describe('SVF', () => {
+  it('peaks at Q at the band-pass cutoff', () => {
+    for (const q of [1, 4, 16]) {
+      expect(sineGain(svf('bp', 1000, q), 1000)).toBeCloseTo(q, 1);
+    }
+  });
+
+  it('falls away from the band-pass cutoff', () => {
+    const peak = sineGain(svf('bp', 1000, 4), 1000);
+    expect(sineGain(svf('bp', 1000, 4), 250) / peak).toBeLessThan(0.1);
+    expect(sineGain(svf('bp', 1000, 4), 4000) / peak).toBeLessThan(0.1);
+  });
+
+  it('passes the low-pass band and blocks above it', () => {
+    expect(sineGain(svf('lp', 1000, Math.SQRT1_2), 50)).toBeCloseTo(1, 2);
+    expect(sineGain(svf('lp', 1000, Math.SQRT1_2), 1000)).toBeCloseTo(Math.SQRT1_2, 2);
+    expect(sineGain(svf('lp', 1000, Math.SQRT1_2), 8000)).toBeLessThan(0.02);
+  });
+
+  it('passes the high-pass band and blocks below it', () => {
+    expect(sineGain(svf('hp', 1000, Math.SQRT1_2), 10000)).toBeCloseTo(1, 1);
+    expect(sineGain(svf('hp', 1000, Math.SQRT1_2), 1000)).toBeCloseTo(Math.SQRT1_2, 1);
+    expect(sineGain(svf('hp', 1000, Math.SQRT1_2), 125)).toBeLessThan(0.02);
+  });
+
+  it('multiplies the response of each stage', () => {
+    const single = sineGain(new SVF({ mode: 'bp', q: 4, fc: 2000 / sampleRate }), 1500);
+    const double = sineGain(new SVF({ mode: 'bp', num: 2, q: 4, fc: 2000 / sampleRate }), 1500);
+    expect(double).toBeCloseTo(single * single, 2);
+  });
+});
+
+describe('EnvelopeFollower', () => {
+  // Samples until the follower covers 1 - 1/e of a step, which is one time constant.
+  const timeConstant = (follower: EnvelopeFollower, from: number, to: number) => {
+    const target = to + (from - to) / Math.E;
+    let samples = 0;
+    while (to > from ? follower.value < target : follower.value > target) {
+      follower.process(to);
+      samples++;
+    }
+    return (samples / sampleRate) * 1000;
+  };
+
+  it('rises over the attack time', () => {
+    const follower = new EnvelopeFollower({ attack: msToCoeff(10, sampleRate), release: msToCoeff(200, sampleRate) });
+    expect(timeConstant(follower, 0, 1)).toBeCloseTo(10, 1);
+  });
+
+  it('falls over the release time', () => {
+    const follower = new EnvelopeFollower({ attack: msToCoeff(1, sampleRate), release: msToCoeff(200, sampleRate) });
+    follower.value = 1;
+    expect(timeConstant(follower, 1, 0)).toBeCloseTo(200, 0);
+  });
+
+  it('holds a constant input', () => {
+    const follower = new EnvelopeFollower({ attack: msToCoeff(5, sampleRate), release: msToCoeff(50, sampleRate) });
+    for (let i = 0; i < sampleRate; i++) follower.process(0.5);
+    expect(follower.value).toBeCloseTo(0.5, 6);
+  });
+});
@@ -0,0 +1,121 @@
+export type SvfMode = 'lp' | 'bp' | 'hp';
+
+interface SvfStage {
+  lp: number;
+  bp: number;
+  hp: number;
+  ic1eq: number;
+  ic2eq: number;
+}
+
+/**
+ * Trapezoidal state variable filter (Simper), run twice per sample as a 2x
+ * oversampled filter, with any number of identical stages in series.
+ */
+export class SVF {
+  /** Cutoff as a fraction of the sample rate, below 1 (the filter runs at twice the rate). */
+  fc: number;
+  q: number;
+  mode: SvfMode;
+  private stages: SvfStage[];
+  private cachedFc: number;
+  private cachedQ: number;
+  private k: number;
+  private a1: number;
+  private a2: number;
+  private a3: number;
+
+  constructor(options: { mode?: SvfMode; num?: number; q?: number; fc?: number } = {}) {
+    this.mode = options.mode ?? 'lp';
+    this.stages = [];
+    for (let i = 0; i < (options.num ?? 1); i++) {
+      this.stages.push({ lp: 0, bp: 0, hp: 0, ic1eq: 0, ic2eq: 0 });
+    }
+    this.q = options.q ?? 1;
+    this.fc = options.fc ?? 0.25;
+  }
+
+  private clock(s: SvfStage, input: number) {
+    const v3 = input - s.ic2eq;
+    const v1 = this.a1 * s.ic1eq + this.a2 * v3;
+    const v2 = s.ic2eq + this.a2 * s.ic1eq + this.a3 * v3;
+    s.ic1eq = 2 * v1 - s.ic1eq;
+    s.ic2eq = 2 * v2 - s.ic2eq;
+    s.lp = v2;
+    s.bp = v1;
+    s.hp = input - this.k * v1 - v2;
+  }
+
+  process(input: number) {
+    if (this.fc !== this.cachedFc || this.q !== this.cachedQ) {
+      this.cachedFc = this.fc;
+      this.cachedQ = this.q;
+      const g = Math.tan(Math.PI * this.fc * 0.5);
+      this.k = 1 / this.q;
+      this.a1 = 1 / (1 + g * (g + this.k));
+      this.a2 = g * this.a1;
+      this.a3 = g * this.a2;
+    }
+    for (const stage of this.stages) {
+      this.clock(stage, input);
+      this.clock(stage, input);
+      input = stage[this.mode];
+    }
+    return input;
+  }
+}
+
+/** Attack and release coefficients of a one-pole follower, see msToCoeff. */
+export interface FollowerCoeffs {
+  attack: number;
+  release: number;
+}
+
+/** Peak follower with separate attack and release, fed rectified samples. */
+export class EnvelopeFollower {
+  coeffs: FollowerCoeffs;
+  value: number;
+
+  constructor(coeffs: FollowerCoeffs) {
+    this.coeffs = coeffs;
+    this.value = 0;
+  }
+
+  process(x: number) {
+    const c = x > this.value ? this.coeffs.attack : this.coeffs.release;
+    this.value += (x - this.value) * c;
+    return this.value;
+  }
+}
+
+/** Biquad coefficients, normalised so a0 is 1. */
+export interface BiquadCoeffs {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** Direct form I biquad. */
+export class Biquad {
+  private c: BiquadCoeffs;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(coeffs: BiquadCoeffs) {
+    this.c = coeffs;
+  }
+
+  process(x: number) {
+    const c = this.c;
+    const y = c.b0 * x + c.b1 * this.x1 + c.b2 * this.x2 - c.a1 * this.y1 - c.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
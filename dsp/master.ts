@@ -0,0 +1,200 @@
+import type { MasterConfig, MeterReading } from '../types';
+import { kWeightingFilters, powerToLufs } from '../utils/loudness';
+import { Biquad } from './filters';
+import { dbToGain, gainToDb, msToCoeff } from './math';
+
+/** Settings changes the master section accepts. */
+export type MasterMessage =
+  | { type: 'SET_MASTER'; master: MasterConfig }
+  | { type: 'RESET_LOUDNESS' };
+
+// Integrated loudness keeps a histogram of 400 ms block loudness in 0.1 LU
+// bins from the -70 LUFS absolute gate up, so gating never needs the history.
+const histogramFloor = -70;
+const histogramBins = 800;
+// Hops of 100 ms in the momentary and short-term windows.
+const momentaryHops = 4;
+const shortTermHops = 30;
+
+/**
+ * Master gain, a lookahead brickwall limiter and the output meter, at the end
+ * of the chain. Delays the audio by the 5 ms lookahead, limiter or not.
+ */
+export class MasterCore {
+  /** Called with a new reading every 100 ms of audio. */
+  onMeter: ((reading: MeterReading) => void) | null = null;
+  private config: MasterConfig = { gainDb: 0, limiter: true, ceilingDb: -1, autoGain: false };
+  private gain = 1;
+  private targetGain = 1;
+  private gainSmoothing: number;
+  private lookahead: number;
+  private delay: [Float32Array, Float32Array];
+  private delayIndex = 0;
+  // Sliding minimum of the required gain over the lookahead, as a monotonic queue.
+  private minValues: Float32Array;
+  private minTimes: Float64Array;
+  private minHead = 0;
+  private minCount = 0;
+  private released = 1;
+  private release: number;
+  // A moving average over the lookahead turns the stepped minimum into a
+  // ramp that still reaches each peak's gain in time.
+  private average: Float32Array;
+  private averageSum: number;
+  private averageIndex = 0;
+  private time = 0;
+  private weighting: [Biquad, Biquad][];
+  private hop: number;
+  private hopCount = 0;
+  private hopPower = 0;
+  private hopPowers = new Float64Array(shortTermHops);
+  private hopsSeen = 0;
+  private histogramCount = new Float64Array(histogramBins);
+  private histogramPower = new Float64Array(histogramBins);
+  private peak: [number, number] = [0, 0];
+  private reduction = 1;
+
+  constructor(sampleRate: number) {
+    this.gainSmoothing = msToCoeff(15, sampleRate);
+    this.release = msToCoeff(80, sampleRate);
+    this.lookahead = Math.max(1, Math.round(0.005 * sampleRate));
+    this.delay = [new Float32Array(this.lookahead), new Float32Array(this.lookahead)];
+    this.minValues = new Float32Array(this.lookahead);
+    this.minTimes = new Float64Array(this.lookahead);
+    this.average = new Float32Array(this.lookahead).fill(1);
+    this.averageSum = this.lookahead;
+    const stages = kWeightingFilters(sampleRate);
+    this.weighting = [0, 1].map(() => [new Biquad(stages[0]), new Biquad(stages[1])]);
+    this.hop = Math.round(0.1 * sampleRate);
+  }
+
+  handleMessage(message: MasterMessage) {
+    if (message.type === 'SET_MASTER') {
+      this.config = message.master;
+      this.targetGain = dbToGain(message.master.gainDb);
+    } else if (message.type === 'RESET_LOUDNESS') {
+      this.histogramCount.fill(0);
+      this.histogramPower.fill(0);
+    }
+  }
+
+  // Pushes the gain a sample needs and returns the lowest over the lookahead.
+  private slidingMin(value: number) {
+    const size = this.lookahead;
+    if (this.minCount > 0 && this.minTimes[this.minHead] <= this.time - size) {
+      this.minHead = (this.minHead + 1) % size;
+      this.minCount--;
+    }
+    while (this.minCount > 0) {
+      const back = (this.minHead + this.minCount - 1) % size;
+      if (this.minValues[back] < value) break;
+      this.minCount--;
+    }
+    const slot = (this.minHead + this.minCount) % size;
+    this.minValues[slot] = value;
+    this.minTimes[slot] = this.time;
+    this.minCount++;
+    return this.minValues[this.minHead];
+  }
+
+  private integratedLoudness() {
+    let power = 0;
+    let count = 0;
+    for (let bin = 0; bin < histogramBins; bin++) {
+      power += this.histogramPower[bin];
+      count += this.histogramCount[bin];
+    }
+    if (!count) return -Infinity;
+    const firstBin = Math.max(0, Math.ceil((powerToLufs(power / count) - 10 - histogramFloor) * 10));
+    power = 0;
+    count = 0;
+    for (let bin = firstBin; bin < histogramBins; bin++) {
+      power += this.histogramPower[bin];
+      count += this.histogramCount[bin];
+    }
+    return count ? powerToLufs(power / count) : -Infinity;
+  }
+
+  // Closes a 100 ms hop: files the last 400 ms block and reports the levels.
+  private finishHop() {
+    this.hopPowers.copyWithin(1, 0);
+    this.hopPowers[0] = this.hopPower;
+    this.hopPower = 0;
+    this.hopsSeen++;
+    let momentary = 0;
+    let shortTerm = 0;
+    for (let h = 0; h < shortTermHops; h++) {
+      if (h < momentaryHops) momentary += this.hopPowers[h];
+      shortTerm += this.hopPowers[h];
+    }
+    momentary /= momentaryHops * this.hop;
+    shortTerm /= shortTermHops * this.hop;
+    const blockLoudness = powerToLufs(momentary);
+    if (this.hopsSeen >= momentaryHops && blockLoudness > histogramFloor) {
+      const bin = Math.min(histogramBins - 1, Math.floor((blockLoudness - histogramFloor) * 10));
+      this.histogramCount[bin]++;
+      this.histogramPower[bin] += momentary;
+    }
+    this.onMeter?.({
+      peakDb: [gainToDb(this.peak[0]), gainToDb(this.peak[1])],
+      momentaryLufs: blockLoudness,
+      shortTermLufs: this.hopsSeen >= shortTermHops ? powerToLufs(shortTerm) : -Infinity,
+      integratedLufs: this.integratedLoudness(),
+      gainReductionDb: gainToDb(this.reduction),
+    });
+    this.peak[0] = this.peak[1] = 0;
+    this.reduction = 1;
+  }
+
+  /**
+   * Runs one block.
+   * @param input The input channels. A mono input feeds both sides; no input at all is silence.
+   * @param out The left and right output, filled in place. A single channel gets the left side.
+   */
+  processBlock(input: Float32Array[], out: Float32Array[]) {
+    const inputLeft = input.length > 0 ? input[0] : null;
+    const inputRight = input.length > 1 ? input[1] : inputLeft;
+    const ceiling = dbToGain(this.config.ceilingDb);
+    const size = this.lookahead;
+
+    for (let i = 0; i < out[0].length; i++) {
+      this.gain += (this.targetGain - this.gain) * this.gainSmoothing;
+      const left = inputLeft ? inputLeft[i] * this.gain : 0;
+      const right = inputRight ? inputRight[i] * this.gain : 0;
+
+      const peak = Math.max(Math.abs(left), Math.abs(right));
+      const needed = this.config.limiter && peak > ceiling ? ceiling / peak : 1;
+      // The release can only lower the gain below what the peaks need, never raise it above.
+      this.released = Math.min(this.slidingMin(needed), this.released + (1 - this.released) * this.release);
+      this.averageSum += this.released - this.average[this.averageIndex];
+      this.average[this.averageIndex] = this.released;
+      this.averageIndex = (this.averageIndex + 1) % size;
+      this.time++;
+      const limiterGain = Math.min(1, this.averageSum / size);
+
+      // The delay line holds the last lookahead - 1 samples plus this one.
+      const index = this.delayIndex;
+      const delayedLeft = this.delay[0][(index + 1) % size];
+      const delayedRight = this.delay[1][(index + 1) % size];
+      this.delay[0][index] = left;
+      this.delay[1][index] = right;
+      this.delayIndex = (index + 1) % size;
+
+      const outLeft = delayedLeft * limiterGain;
+      const outRight = delayedRight * limiterGain;
+      out[0][i] = outLeft;
+      if (out.length > 1) out[1][i] = outRight;
+
+      this.reduction = Math.min(this.reduction, limiterGain);
+      this.peak[0] = Math.max(this.peak[0], Math.abs(outLeft));
+      this.peak[1] = Math.max(this.peak[1], Math.abs(outRight));
+      const weightedLeft = this.weighting[0][1].process(this.weighting[0][0].process(outLeft));
+      const weightedRight = this.weighting[1][1].process(this.weighting[1][0].process(outRight));
+      this.hopPower += weightedLeft * weightedLeft + weightedRight * weightedRight;
+      if (++this.hopCount >= this.hop) {
+        this.hopCount = 0;
+        this.finishHop();
+      }
+    }
+  }
+}
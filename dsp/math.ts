@@ -0,0 +1,16 @@
+/** Frequency of a (possibly fractional) MIDI note in Hz, A4 = 440 Hz. */
+export const midiToHz = (note: number) => 2 ** ((note - 69) / 12) * 440;
+
+export const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * One-pole smoothing coefficient for a time constant.
+ * @param ms The time constant in milliseconds.
+ * @param sampleRate The sample rate in Hz.
+ * @returns The share of the distance to the target covered each sample.
+ */
+export const msToCoeff = (ms: number, sampleRate: number) => 1 - Math.exp(-1 / (Math.max(ms, 0.01) * 0.001 * sampleRate));
+
+export const dbToGain = (db: number) => 10 ** (db / 20);
+
+export const gainToDb = (gain: number) => gain > 0 ? 20 * Math.log10(gain) : -Infinity;
@@ -0,0 +1,57 @@
+import type { LfoConfig, ModDestination } from '../types';
+import { divisionBeats } from '../utils/effects';
+import type { Rng } from '../utils/randomizer';
+
+/**
+ * How far a route at full depth moves each destination: semitones of pitch,
+ * octaves of formant shift, carrier noise mix, octaves of band Q and dB of output gain.
+ */
+export const modulationSpans: Record<ModDestination, number> = { pitch: 12, size: 1, carrierNoise: 1, q: 1, gain: 12 };
+
+export class Lfo {
+  private config: LfoConfig;
+  private hz: number;
+  private phase = 0;
+  private held = 0;
+
+  constructor(private random: Rng) {
+    this.configure({ shape: 'sine', rateHz: 5, sync: false, division: '1/4', phase: 0 }, 120);
+  }
+
+  configure(config: LfoConfig, tempo: number) {
+    this.config = config;
+    this.hz = config.sync ? tempo / 60 / (divisionBeats[config.division] || 1) : config.rateHz;
+  }
+
+  /**
+   * Returns the current value and advances by one sample.
+   * @param dt The length of a sample in seconds.
+   * @returns The value, -1 to 1.
+   */
+  next(dt: number) {
+    const p = (this.phase + this.config.phase) % 1;
+    let value: number;
+    switch (this.config.shape) {
+      case 'triangle':
+        value = 1 - 4 * Math.abs(((p + 0.25) % 1) - 0.5);
+        break;
+      case 'saw':
+        value = 2 * p - 1;
+        break;
+      case 'square':
+        value = p < 0.5 ? 1 : -1;
+        break;
+      case 'random':
+        value = this.held;
+        break;
+      default:
+        value = Math.sin(2 * Math.PI * p);
+    }
+    this.phase += this.hz * dt;
+    if (this.phase >= 1) {
+      this.phase %= 1;
+      this.held = this.random() * 2 - 1;
+    }
+    return value;
+  }
+}
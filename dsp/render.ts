@@ -0,0 +1,77 @@
+import type { VocoderParams, VocoderSettings } from '../types';
+import { MasterCore } from './master';
+import { VocoderCore, vocoderSettingsMessages } from './vocoder';
+
+// Samples processed per call, the same as a Web Audio render quantum.
+const BLOCK_SIZE = 128;
+
+export interface HeadlessRenderOptions {
+  /** The modulator's channels, one or two. */
+  modulator: Float32Array[];
+  /** An external carrier's channels at the same sample rate, looped. Null for the internal synth. */
+  carrier: Float32Array[] | null;
+  sampleRate: number;
+  params: VocoderParams;
+  settings: VocoderSettings;
+  /** Extra time rendered after the modulator so envelopes can ring out, in seconds. */
+  tailSeconds: number;
+  channels: 1 | 2;
+  /** Seed for the vocoder's noise and oscillator phases; random when left out. */
+  seed?: number;
+}
+
+/**
+ * Runs the vocoder and master section without an AudioContext, as the
+ * offline render in the browser does minus the effects rack, which is built
+ * from Web Audio nodes. Speed plays the modulator faster or slower with
+ * linear interpolation, like an AudioBufferSourceNode's playback rate.
+ * @param options The audio, patch and render options.
+ * @returns The rendered channels.
+ */
+export const renderHeadless = (options: HeadlessRenderOptions): Float32Array[] => {
+  const { modulator, carrier, sampleRate, params, settings } = options;
+  const vocoder = new VocoderCore(sampleRate, options.seed);
+  vocoderSettingsMessages(settings, params.speed).forEach(message => vocoder.handleMessage(message));
+  vocoder.setParams({ pitch: params.pitch, size: params.size, carrierNoise: params.carrierNoise });
+  const master = new MasterCore(sampleRate);
+  master.handleMessage({ type: 'SET_MASTER', master: settings.master });
+
+  const sourceLength = modulator[0].length;
+  const length = Math.ceil(sourceLength / params.speed + options.tailSeconds * sampleRate);
+  const output = [new Float32Array(length), new Float32Array(length)];
+  const modulatorBlock = modulator.map(() => new Float32Array(BLOCK_SIZE));
+  const carrierBlock = carrier ? carrier.map(() => new Float32Array(BLOCK_SIZE)) : null;
+  const vocoded = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+  const mastered = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+  let carrierPosition = 0;
+
+  for (let offset = 0; offset < length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      const position = (offset + i) * params.speed;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      modulator.forEach((channel, c) => {
+        const a = index < sourceLength ? channel[index] : 0;
+        const b = index + 1 < sourceLength ? channel[index + 1] : 0;
+        modulatorBlock[c][i] = a + (b - a) * fraction;
+      });
+      if (carrier && carrierBlock) {
+        carrier.forEach((channel, c) => {
+          carrierBlock[c][i] = channel[carrierPosition];
+        });
+        carrierPosition = (carrierPosition + 1) % carrier[0].length;
+      }
+    }
+    vocoder.processBlock(modulatorBlock, carrierBlock, vocoded);
+    master.processBlock(vocoded, mastered);
+    const frames = Math.min(BLOCK_SIZE, length - offset);
+    output[0].set(mastered[0].subarray(0, frames), offset);
+    output[1].set(mastered[1].subarray(0, frames), offset);
+  }
+
+  if (options.channels === 2) return output;
+  // Down-mixed the way Web Audio mixes stereo into a mono destination.
+  const mono = new Float32Array(length);
+  for (let i = 0; i < length; i++) mono[i] = (output[0][i] + output[1][i]) * 0.5;
+  return [mono];
+};
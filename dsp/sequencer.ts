@@ -0,0 +1,115 @@
+import type { SequencerConfig } from '../types';
+import { divisionBeats } from '../utils/effects';
+import type { Rng } from '../utils/randomizer';
+import { quantizeToScale } from '../utils/scales';
+import { msToCoeff } from './math';
+
+/**
+ * Steps through a sequence one sample at a time, so step boundaries land on
+ * the same sample live and in an offline render. Leaves the current note, in
+ * semitones above C2 and gliding where a step asks for it, in `note` and
+ * whether it sounds in `gate`.
+ */
+export class StepSequencer {
+  note = 0;
+  gate = false;
+  private config: SequencerConfig | null = null;
+  private tempo = 120;
+  // Scale-snapped note of each step.
+  private notes: number[] = [];
+  private stepSamples = 0;
+  private glide: number;
+  private index = 0;
+  private nextIndex = 0;
+  // Direction of travel in ping-pong mode.
+  private direction = 1;
+  // Steps played since the start, for the swing of even and odd steps.
+  private count = -1;
+  private position = Infinity;
+  private stepLength = 0;
+  private gateSamples = 0;
+  private target = 0;
+  private gliding = false;
+
+  constructor(private sampleRate: number, private random: Rng) {
+    this.glide = msToCoeff(60, sampleRate);
+  }
+
+  configure(config: SequencerConfig, tempo: number) {
+    const isFirst = !this.config;
+    this.config = config;
+    this.tempo = tempo;
+    this.notes = config.steps.map(step => quantizeToScale(config.root + step.note, config.scale, config.root));
+    this.stepSamples = (60 / tempo) * (divisionBeats[config.division] || 0.25) * this.sampleRate;
+    this.glide = msToCoeff(Math.max(1, config.glideMs), this.sampleRate);
+    if (isFirst) this.reset();
+  }
+
+  setTempo(tempo: number) {
+    if (this.config && tempo !== this.tempo) this.configure(this.config, tempo);
+  }
+
+  /** Goes back to the first step, e.g. when playback starts. */
+  reset() {
+    this.position = Infinity;
+    this.count = -1;
+    this.direction = 1;
+    this.gate = false;
+    this.nextIndex = this.pick(-1);
+  }
+
+  private stepCount(config: SequencerConfig) {
+    return Math.max(1, Math.min(config.length, config.steps.length));
+  }
+
+  // The step after `index` in the current direction; -1 asks for the first.
+  private pick(index: number) {
+    const config = this.config;
+    if (!config) return 0;
+    const length = this.stepCount(config);
+    switch (config.direction) {
+      case 'reverse':
+        return index < 0 ? length - 1 : (index - 1 + length) % length;
+      case 'random':
+        return Math.floor(this.random() * length);
+      case 'pingpong': {
+        if (index < 0 || length < 2) return 0;
+        if (index + this.direction >= length || index + this.direction < 0) this.direction = -this.direction;
+        return index + this.direction;
+      }
+      default:
+        return index < 0 ? 0 : (index + 1) % length;
+    }
+  }
+
+  private advance(config: SequencerConfig) {
+    // The length may have shrunk under a step picked earlier.
+    this.index = this.nextIndex < this.stepCount(config) ? this.nextIndex : 0;
+    this.nextIndex = this.pick(this.index);
+    this.count++;
+    // Steps last a fractional number of samples; carrying the remainder keeps the tempo exact.
+    this.position = Number.isFinite(this.position) ? this.position - this.stepLength : 0;
+    const swing = this.count % 2 === 0 ? 1 + config.swing : 1 - config.swing;
+    this.stepLength = Math.max(1, this.stepSamples * swing);
+
+    const step = config.steps[this.index];
+    const next = config.steps[this.nextIndex];
+    // A note tied into a gliding step holds its gate over the whole step.
+    const tied = step.gate > 0 && next.glide && next.gate > 0;
+    this.gateSamples = tied ? this.stepLength : this.stepLength * step.gate;
+    if (step.gate <= 0) return;
+    this.gliding = step.glide && this.gate;
+    this.target = this.notes[this.index];
+    if (!this.gliding) this.note = this.target;
+  }
+
+  /** Advances by one sample. */
+  tick() {
+    const config = this.config;
+    if (!config) return;
+    if (this.position >= this.stepLength) this.advance(config);
+    this.gate = this.position < this.gateSamples;
+    if (this.gliding) this.note += (this.target - this.note) * this.glide;
+    this.position++;
+  }
+}
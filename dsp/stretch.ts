@@ -0,0 +1,127 @@
+// Length of the stretch of waveform compared when splicing, and how far either
+// side of the nominal splice point the search goes, in milliseconds.
+const matchMs = 10;
+const searchMs = 6;
+// Only every few samples are compared and candidates tried, which is plenty to line up the periods of a voice.
+const matchStride = 4;
+const searchStride = 2;
+
+interface Head {
+  /** How far behind the write position the head reads, in samples. */
+  delay: number;
+  /** Position in its grain, 0 to 1. */
+  phase: number;
+}
+
+/**
+ * Shifts the pitch of a signal without changing its length (WSOLA). Two
+ * heads read the signal back at the pitch ratio through overlapping Hann
+ * windowed grains. When a head starts a grain it jumps back to the spot, near
+ * where it should be, whose waveform best matches what the other head is
+ * playing, so the splice neither clicks nor beats.
+ *
+ * Sped-up playback shifted back down by the same ratio keeps its new tempo
+ * but gets its original pitch and formants back, which is how the modulator
+ * is time-stretched.
+ */
+export class WsolaShifter {
+  private buffer = new Float32Array(0);
+  private mask = 0;
+  private write = 0;
+  private ratio = 1;
+  private grain = 1;
+  private match: number;
+  private search: number;
+  // Shortest delay, which leaves room to compare a stretch of waveform ahead of the head.
+  private minDelay: number;
+  private heads: [Head, Head];
+
+  constructor(private sampleRate: number) {
+    this.match = Math.round(matchMs * 0.001 * sampleRate);
+    this.search = Math.round(searchMs * 0.001 * sampleRate);
+    this.minDelay = this.match + this.search + 2;
+    this.heads = [{ delay: this.minDelay, phase: 0 }, { delay: this.minDelay, phase: 0.5 }];
+    this.configure(50, 1);
+  }
+
+  /**
+   * @param grainMs Length of each grain in milliseconds. Longer grains suit
+   * low voices, shorter ones keep transients tighter.
+   * @param ratio The pitch ratio, e.g. 0.5 for an octave down.
+   */
+  configure(grainMs: number, ratio: number) {
+    this.ratio = ratio;
+    this.grain = Math.max(2 * this.match, Math.round(grainMs * 0.001 * this.sampleRate));
+    const longest = this.startDelay() + this.search + this.grain * Math.abs(1 - ratio) + 1;
+    if (longest > this.buffer.length) {
+      const size = 2 ** Math.ceil(Math.log2(longest));
+      const buffer = new Float32Array(size);
+      // Keep the recent past, so a change of speed does not drop out.
+      for (let i = 1; i <= Math.min(this.buffer.length, size); i++) {
+        buffer[(this.write - i) & (size - 1)] = this.buffer[(this.write - i) & this.mask];
+      }
+      this.buffer = buffer;
+      this.mask = size - 1;
+    }
+  }
+
+  // Delay at the start of a grain, so that a head reading faster than the
+  // input reaches the shortest delay just as its grain ends.
+  private startDelay() {
+    return this.minDelay + Math.max(0, this.grain * (this.ratio - 1));
+  }
+
+  private read(delay: number) {
+    const position = this.write - delay;
+    const index = Math.floor(position);
+    const a = this.buffer[index & this.mask];
+    const b = this.buffer[(index + 1) & this.mask];
+    return a + (b - a) * (position - index);
+  }
+
+  /** Finds the delay near the nominal start whose waveform best continues what `other` plays. */
+  private splice(other: Head) {
+    const nominal = this.startDelay();
+    const { buffer, mask, ratio } = this;
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let offset = -this.search; offset <= this.search; offset += searchStride) {
+      const delay = nominal + offset;
+      let correlation = 0;
+      let energy = 1e-9;
+      for (let k = 0; k < this.match; k += matchStride) {
+        const step = k * ratio;
+        const candidate = buffer[Math.floor(this.write - delay + step) & mask];
+        correlation += candidate * buffer[Math.floor(this.write - other.delay + step) & mask];
+        energy += candidate * candidate;
+      }
+      const score = correlation / Math.sqrt(energy);
+      if (score > bestScore) {
+        bestScore = score;
+        best = delay;
+      }
+    }
+    return Math.max(this.minDelay, best);
+  }
+
+  /** Takes one input sample and returns one shifted output sample. */
+  process(input: number) {
+    this.buffer[this.write & this.mask] = input;
+    const step = 1 / this.grain;
+    const drift = 1 - this.ratio;
+    let output = 0;
+    for (let h = 0; h < 2; h++) {
+      const head = this.heads[h];
+      if (head.phase >= 1) {
+        head.phase -= 1;
+        head.delay = this.splice(this.heads[1 - h]);
+      }
+      const window = Math.sin(Math.PI * head.phase);
+      output += this.read(head.delay) * window * window;
+      head.delay = Math.max(this.minDelay, head.delay + drift);
+      head.phase += step;
+    }
+    this.write = (this.write + 1) & 0x3fffffff;
+    return output;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { BankConfig } from '../types';
+import { defaultSettings } from '../utils/patch';
+import { createRng } from '../utils/randomizer';
+import { VocoderCore, vocoderSettingsMessages } from './vocoder';
+
+const sampleRate = 48000;
+const blockSize = 128;
+
+// A second of seeded noise, so every run vocodes the same modulator.
+const noise = (() => {
+  const random = createRng(1);
+  return Float32Array.from({ length: sampleRate }, () => random() * 2 - 1);
+})();
+
+const render = (seed: number, bank: BankConfig = defaultSettings.bank) => {
+  const core = new VocoderCore(sampleRate, seed);
+  vocoderSettingsMessages({ ...defaultSettings, bank }, 1).forEach(message => core.handleMessage(message));
+  const out = [new Float32Array(noise.length), new Float32Array(noise.length)];
+  for (let i = 0; i < noise.length; i += blockSize) {
+    core.processBlock([noise.subarray(i, i + blockSize)], null, out.map(channel => channel.subarray(i, i + blockSize)));
+  }
+  return out;
+};
+
+const rmsDb = (data: Float32Array) => {
+  let power = 0;
+  // The first quarter second is left for the envelopes to settle.
+  for (let i = sampleRate / 4; i < data.length; i++) power += data[i] * data[i];
+  return 10 * Math.log10(power / (data.length - sampleRate / 4));
+};
+
+describe('VocoderCore', () => {
+  // Uncompensated, Q 1 and Q 8 alone would be about 45 dB apart. What is left
+  // is how much of the noise each bank happens to catch.
+  it('keeps the output level of every bank close to the default bank', () => {
+    const reference = rmsDb(render(1)[0]);
+    for (const bandCount of [4, 8, 16, 32, 40]) {
+      for (const q of [1, 2, 4, 8]) {
+        const level = rmsDb(render(1, { ...defaultSettings.bank, bandCount, q })[0]);
+        expect(Math.abs(level - reference), `${bandCount} bands, Q ${q}`).toBeLessThan(8);
+      }
+    }
+  });
+
+  it('renders bit-identical output for equal seeds', () => {
+    const [a, b] = [render(42), render(42)];
+    expect(a[0]).toEqual(b[0]);
+    expect(a[1]).toEqual(b[1]);
+  });
+
+  it('renders different output for different seeds', () => {
+    expect(render(42)[0]).not.toEqual(render(43)[0]);
+  });
+});
@@ -0,0 +1,436 @@
+import type { AutomatableParam, BandLevel, BankConfig, CarrierConfig, EnvelopeConfig, ModRoute, ModSource, ModulationConfig, ModDestination, SequencerConfig, SibilanceConfig, StereoConfig, TimeStretchConfig, TrackingConfig, VocoderSettings } from '../types';
+import { bandFrequencies } from '../utils/filterBank';
+import type { MidiEvent } from '../utils/midi';
+import { createRng, type Rng } from '../utils/randomizer';
+import { PitchTracker, SibilanceDetector } from './analysis';
+import { PolyCarrier } from './carrier';
+import { EnvelopeFollower, SVF, type FollowerCoeffs } from './filters';
+import { dbToGain, lerp, msToCoeff } from './math';
+import { Lfo, modulationSpans } from './modulation';
+import { StepSequencer } from './sequencer';
+import { WsolaShifter } from './stretch';
+
+/** Settings changes the vocoder accepts, posted to the worklet's port or handed to the core directly. */
+export type VocoderMessage =
+  | { type: 'SET_BANK'; bank: BankConfig }
+  | { type: 'SET_ENVELOPE'; envelope: EnvelopeConfig }
+  | { type: 'SET_BAND_LEVELS'; bandLevels: BandLevel[] }
+  | { type: 'SET_CARRIER'; carrier: CarrierConfig }
+  | { type: 'SET_TRACKING'; tracking: TrackingConfig }
+  | { type: 'SET_SIBILANCE'; sibilance: SibilanceConfig }
+  | { type: 'SET_STEREO'; stereo: StereoConfig }
+  | { type: 'SET_MODULATION'; modulation: ModulationConfig }
+  | { type: 'SET_SEQUENCER'; sequencer: SequencerConfig }
+  /** Restarts the sequence from its first step. */
+  | { type: 'RESET_SEQUENCER' }
+  /** The speed the modulator is played at, which time-stretch undoes the pitch of; 1 for live input. */
+  | { type: 'SET_TIME_STRETCH'; timeStretch: TimeStretchConfig; speed: number }
+  | { type: 'SET_AUTO_GAIN'; enabled: boolean }
+  | { type: 'MIDI'; event: MidiEvent };
+
+/**
+ * Lists the messages that bring a fresh vocoder in line with a patch.
+ * @param settings The settings for everything besides the main voice parameters.
+ * @param speed The speed the modulator is played at.
+ */
+export const vocoderSettingsMessages = (settings: VocoderSettings, speed: number): VocoderMessage[] => [
+  { type: 'SET_BANK', bank: settings.bank },
+  { type: 'SET_ENVELOPE', envelope: settings.envelope },
+  { type: 'SET_BAND_LEVELS', bandLevels: settings.bandLevels },
+  { type: 'SET_CARRIER', carrier: settings.carrier },
+  { type: 'SET_TRACKING', tracking: settings.tracking },
+  { type: 'SET_SIBILANCE', sibilance: settings.sibilance },
+  { type: 'SET_STEREO', stereo: settings.stereo },
+  { type: 'SET_MODULATION', modulation: settings.modulation },
+  { type: 'SET_SEQUENCER', sequencer: settings.sequencer },
+  { type: 'SET_TIME_STRETCH', timeStretch: settings.timeStretch, speed },
+  { type: 'SET_AUTO_GAIN', enabled: settings.master.autoGain },
+];
+
+/** Values of the voice parameters, either one per sample or a single value for the whole block. */
+export type ParamBlock = Record<AutomatableParam, ArrayLike<number>>;
+
+/** Where the voice parameters start before anything sets them, matching the worklet's AudioParam defaults. */
+export const defaultParamValues: Record<AutomatableParam, number> = { carrierNoise: 0.1, size: 0, pitch: 0.3 };
+
+// Auto gain holds still while the modulator is below this power (about -50 dBFS),
+// and never moves more than 24 dB either way.
+const autoGainGate = 1e-5;
+const autoGainLimit = 16;
+
+interface Band {
+  freq: number;
+  gain: number;
+  modFilter: SVF;
+  carrierFilter: SVF;
+  envelopeFollower: EnvelopeFollower;
+  // The right side's path, used by the stereo modes.
+  modFilterR: SVF;
+  carrierFilterR: SVF;
+  envelopeFollowerR: EnvelopeFollower;
+  panLeft: number;
+  panRight: number;
+}
+
+/**
+ * The channel vocoder: splits modulator and carrier into matching band-pass
+ * banks and imposes each modulator band's envelope on the carrier band.
+ * Runs anywhere, the worklet wraps it for Web Audio and the same class
+ * renders headless in Node.
+ */
+export class VocoderCore {
+  readonly sampleRate: number;
+  private dt: number;
+  private random: Rng;
+  private paramSmoothing: number;
+  private autoGainAveraging: number;
+  private autoGainSmoothing: number;
+  // Smoothed values of the voice parameters, advanced once per sample. Seeded
+  // from the first block so a new vocoder does not glide in from the defaults.
+  private params: Record<AutomatableParam, number> | null = null;
+  // Targets used when a block comes without parameter values.
+  private paramTargets: ParamBlock;
+  private carrierSynth: PolyCarrier;
+  private bands: Band[] = [];
+  private bankQ = 4;
+  private outputGain = 1;
+  private envelope: FollowerCoeffs;
+  private bandLevels: BandLevel[] = [];
+  private pitchTracker: PitchTracker;
+  private sequencer: StepSequencer;
+  private tempo = 120;
+  // One shifter per modulator channel, and the blocks they fill; only used while stretching.
+  private shifters: [WsolaShifter, WsolaShifter] | null = null;
+  private stretched: Float32Array[] = [];
+  private sibilance: SibilanceDetector;
+  private stereo: StereoConfig = { mode: 'mono', width: 1, carrierSpread: 0.5 };
+  private autoGain = { enabled: false, input: 0, output: 0, gain: 1 };
+  private lfos: Record<'lfo1' | 'lfo2', Lfo>;
+  private modEnvelope: EnvelopeFollower;
+  private modSensitivity = dbToGain(12);
+  private routes: ModRoute[] = [];
+  private modSources: Record<ModSource, number> = { lfo1: 0, lfo2: 0, envelope: 0 };
+  private mod: Record<ModDestination, number> = { pitch: 0, size: 0, carrierNoise: 0, q: 0, gain: 0 };
+
+  /**
+   * @param sampleRate The sample rate in Hz.
+   * @param seed Seed for the noise, oscillator phases and sample and hold, so a
+   * render can be repeated exactly. Random when left out.
+   */
+  constructor(sampleRate: number, seed: number = Math.floor(Math.random() * 2 ** 32)) {
+    this.sampleRate = sampleRate;
+    this.dt = 1 / sampleRate;
+    this.random = createRng(seed);
+    // Smooths the voice parameters, so slider sweeps and automation steps do not zipper.
+    this.paramSmoothing = msToCoeff(15, sampleRate);
+    // Auto gain compares the average power of the modulator and the vocoded
+    // output over the first time constant, and glides its gain over the second.
+    this.autoGainAveraging = msToCoeff(1500, sampleRate);
+    this.autoGainSmoothing = msToCoeff(500, sampleRate);
+    this.paramTargets = {
+      carrierNoise: [defaultParamValues.carrierNoise],
+      size: [defaultParamValues.size],
+      pitch: [defaultParamValues.pitch],
+    };
+    this.envelope = { attack: msToCoeff(4.5, sampleRate), release: msToCoeff(1.1, sampleRate) };
+    this.pitchTracker = new PitchTracker(sampleRate);
+    this.sibilance = new SibilanceDetector(sampleRate);
+    this.sequencer = new StepSequencer(sampleRate, this.random);
+    this.lfos = { lfo1: new Lfo(this.random), lfo2: new Lfo(this.random) };
+    this.modEnvelope = new EnvelopeFollower({ attack: msToCoeff(10, sampleRate), release: msToCoeff(150, sampleRate) });
+    this.carrierSynth = this.createCarrier({ waveform: 'square', pulseWidth: 0.5, unison: 3, detune: 0.1, chord: 'none', pitchMode: 'fixed' });
+    this.initBands({ bandCount: 8, spacing: 'classic', minFreq: 123, maxFreq: 4865, q: 4 });
+  }
+
+  /** Applies a settings change. */
+  handleMessage(message: VocoderMessage) {
+    switch (message.type) {
+      case 'SET_BANK':
+        this.initBands(message.bank);
+        break;
+      case 'SET_ENVELOPE':
+        this.envelope = {
+          attack: msToCoeff(message.envelope.attackMs, this.sampleRate),
+          release: msToCoeff(message.envelope.releaseMs, this.sampleRate),
+        };
+        for (const band of this.bands) {
+          band.envelopeFollower.coeffs = this.envelope;
+          band.envelopeFollowerR.coeffs = this.envelope;
+        }
+        break;
+      case 'SET_CARRIER':
+        this.carrierSynth = this.createCarrier(message.carrier);
+        break;
+      case 'SET_SIBILANCE':
+        this.sibilance.config = message.sibilance;
+        break;
+      case 'SET_TRACKING':
+        this.pitchTracker.configure(message.tracking);
+        break;
+      case 'MIDI':
+        this.carrierSynth.midi(message.event);
+        break;
+      case 'SET_BAND_LEVELS':
+        this.bandLevels = message.bandLevels;
+        this.applyBandLevels();
+        break;
+      case 'SET_AUTO_GAIN':
+        this.autoGain.enabled = message.enabled;
+        if (!message.enabled) this.autoGain.gain = 1;
+        break;
+      case 'SET_STEREO':
+        this.stereo = message.stereo;
+        this.applyStereo();
+        break;
+      case 'SET_MODULATION': {
+        const modulation = message.modulation;
+        this.lfos.lfo1.configure(modulation.lfo1, modulation.tempo);
+        this.lfos.lfo2.configure(modulation.lfo2, modulation.tempo);
+        this.modEnvelope.coeffs = {
+          attack: msToCoeff(modulation.envelope.attackMs, this.sampleRate),
+          release: msToCoeff(modulation.envelope.releaseMs, this.sampleRate),
+        };
+        this.modSensitivity = dbToGain(modulation.envelope.sensitivityDb);
+        this.routes = modulation.routes;
+        this.tempo = modulation.tempo;
+        this.sequencer.setTempo(modulation.tempo);
+        break;
+      }
+      case 'SET_SEQUENCER':
+        this.sequencer.configure(message.sequencer, this.tempo);
+        break;
+      case 'RESET_SEQUENCER':
+        this.sequencer.reset();
+        break;
+      case 'SET_TIME_STRETCH': {
+        const { timeStretch, speed } = message;
+        if (!timeStretch.enabled || speed === 1) {
+          this.shifters = null;
+          break;
+        }
+        this.shifters ??= [new WsolaShifter(this.sampleRate), new WsolaShifter(this.sampleRate)];
+        this.shifters.forEach(shifter => shifter.configure(timeStretch.grainMs, 1 / speed));
+        break;
+      }
+    }
+  }
+
+  /** Sets the voice parameters used by blocks processed without their own values. */
+  setParams(values: Partial<Record<AutomatableParam, number>>) {
+    for (const [param, value] of Object.entries(values) as [AutomatableParam, number][]) {
+      this.paramTargets[param] = [value];
+    }
+  }
+
+  private createCarrier(carrier: CarrierConfig) {
+    return new PolyCarrier(carrier, this.sampleRate, this.random, this.pitchTracker, this.sequencer);
+  }
+
+  private initBands(bank: BankConfig) {
+    const follower = () => new EnvelopeFollower(this.envelope);
+    const bandPass = () => new SVF({ mode: 'bp', num: 2, q: bank.q });
+    this.bands = bandFrequencies(bank).map(freq => ({
+      freq,
+      gain: 1,
+      modFilter: bandPass(),
+      carrierFilter: bandPass(),
+      envelopeFollower: follower(),
+      modFilterR: bandPass(),
+      carrierFilterR: bandPass(),
+      envelopeFollowerR: follower(),
+      panLeft: 1,
+      panRight: 1,
+    }));
+    // Output level grows roughly with sqrt(band count) and steeply with Q
+    // (the band-pass peak gain is Q per stage). These exponents were fitted
+    // so that any bank lands close to the level of the original 8 band, Q 4 bank.
+    this.outputGain = 4 * (8 / this.bands.length) ** 0.55 * (4 / bank.q) ** 2.5;
+    this.bankQ = bank.q;
+    this.applyBandLevels();
+    this.applyStereo();
+  }
+
+  // Pans the bands for the stereo mode. Centred bands get unity on both
+  // sides, and hard panned ones sqrt(2) on one, so the total power matches mono.
+  private applyStereo() {
+    const mode = this.stereo.mode;
+    const count = this.bands.length;
+    this.bands.forEach((band, i) => {
+      let pan = 0;
+      if (mode === 'alternate') pan = i % 2 ? 1 : -1;
+      else if (mode === 'spread') pan = count > 1 ? i / (count - 1) * 2 - 1 : 0;
+      const angle = (pan + 1) * Math.PI / 4;
+      band.panLeft = Math.SQRT2 * Math.cos(angle);
+      band.panRight = Math.SQRT2 * Math.sin(angle);
+    });
+  }
+
+  private applyBandLevels() {
+    const anySolo = this.bandLevels.some((level) => level.solo);
+    this.bands.forEach((band, i) => {
+      const level = this.bandLevels[i];
+      if (!level) {
+        band.gain = anySolo ? 0 : 1;
+      } else if (anySolo) {
+        band.gain = level.solo ? dbToGain(level.gain) : 0;
+      } else {
+        band.gain = level.mute ? 0 : dbToGain(level.gain);
+      }
+    });
+  }
+
+  // Follows the power of the modulator and of the vocoded output, and returns
+  // the gain that brings the output to the modulator's level.
+  private trackAutoGain(input: number, left: number, right: number) {
+    const autoGain = this.autoGain;
+    autoGain.input += (input * input - autoGain.input) * this.autoGainAveraging;
+    autoGain.output += ((left * left + right * right) * 0.5 - autoGain.output) * this.autoGainAveraging;
+    if (autoGain.input > autoGainGate && autoGain.output > 0) {
+      const target = Math.min(autoGainLimit, Math.max(1 / autoGainLimit, Math.sqrt(autoGain.input / autoGain.output)));
+      autoGain.gain += (target - autoGain.gain) * this.autoGainSmoothing;
+    }
+    return autoGain.gain;
+  }
+
+  // Shifts the modulator's channels back to their original pitch.
+  private stretch(modulator: Float32Array[], shifters: WsolaShifter[]) {
+    return modulator.slice(0, 2).map((channel, c) => {
+      if (!this.stretched[c] || this.stretched[c].length !== channel.length) {
+        this.stretched[c] = new Float32Array(channel.length);
+      }
+      const out = this.stretched[c];
+      for (let i = 0; i < channel.length; i++) out[i] = shifters[c].process(channel[i]);
+      return out;
+    });
+  }
+
+  /**
+   * Vocodes one block.
+   * @param modulator The modulator's channels, one or two. No channels is silence.
+   * @param carrier An external carrier's channels, or null or empty for the internal synth.
+   * @param out The left and right output, filled in place. A single channel gets the left side.
+   * @param params Values of the voice parameters for this block; the last set targets when left out.
+   */
+  processBlock(modulator: Float32Array[], carrier: Float32Array[] | null, out: Float32Array[], params: ParamBlock = this.paramTargets) {
+    const leftChannel = out[0];
+    const rightChannel = out.length > 1 ? out[1] : leftChannel;
+
+    if (modulator.length === 0 || modulator[0].length === 0) {
+      leftChannel.fill(0);
+      rightChannel.fill(0);
+      return;
+    }
+    if (this.shifters) {
+      modulator = this.stretch(modulator, this.shifters);
+    }
+    const modulatorChannel = modulator[0];
+    const modulatorRight = modulator.length > 1 ? modulator[1] : modulatorChannel;
+    const tracking = this.carrierSynth.mode === 'track';
+    const stereo = this.stereo.mode !== 'mono';
+    const trueStereo = this.stereo.mode === 'true';
+    const width = this.stereo.width;
+    const spread = stereo ? this.stereo.carrierSpread : 0;
+    // An external carrier with no channels means nothing is connected, so the internal synth is used.
+    const carrierLeft = carrier && carrier.length > 0 ? carrier[0] : null;
+    const carrierRight = carrier && carrier.length > 1 ? carrier[1] : carrierLeft;
+    const { carrierNoise, size, pitch } = params;
+    if (!this.params) {
+      this.params = { carrierNoise: carrierNoise[0], size: size[0], pitch: pitch[0] };
+    }
+    const smoothed = this.params;
+    const smoothing = this.paramSmoothing;
+    const dt = this.dt;
+
+    for (let i = 0; i < leftChannel.length; i++) {
+      // Params without automation in this block arrive as a single value.
+      smoothed.carrierNoise += ((carrierNoise.length > 1 ? carrierNoise[i] : carrierNoise[0]) - smoothed.carrierNoise) * smoothing;
+      smoothed.size += ((size.length > 1 ? size[i] : size[0]) - smoothed.size) * smoothing;
+      smoothed.pitch += ((pitch.length > 1 ? pitch[i] : pitch[0]) - smoothed.pitch) * smoothing;
+
+      const modulatorLeftSample = modulatorChannel[i];
+      const modulatorRightSample = modulatorRight[i];
+      // Everything but the true stereo bands works on the mid signal.
+      const modulatorSample = (modulatorLeftSample + modulatorRightSample) * 0.5;
+      const sources = this.modSources;
+      const mod = this.mod;
+      sources.lfo1 = this.lfos.lfo1.next(dt);
+      sources.lfo2 = this.lfos.lfo2.next(dt);
+      sources.envelope = Math.min(1, this.modEnvelope.process(Math.abs(modulatorSample)) * this.modSensitivity);
+      mod.pitch = mod.size = mod.carrierNoise = mod.q = mod.gain = 0;
+      for (const route of this.routes) {
+        mod[route.destination] += sources[route.source] * route.depth * modulationSpans[route.destination];
+      }
+      const shift = 2 ** (smoothed.size + mod.size);
+      // Band-pass peak gain rises with Q, so modulating it would swing the
+      // level wildly; scale by the same fitted exponent initBands uses.
+      const qScale = mod.q !== 0 ? 2 ** mod.q : 1;
+      const gain = this.outputGain * (mod.q !== 0 ? qScale ** -2.5 : 1) * (mod.gain !== 0 ? dbToGain(mod.gain) : 1);
+
+      if (tracking) {
+        this.pitchTracker.push(modulatorSample);
+      }
+      let sibilantSample = 0;
+      let noiseMix = Math.min(1, Math.max(0, smoothed.carrierNoise + mod.carrierNoise));
+      if (this.sibilance.config.enabled) {
+        // Sibilant frames switch the carrier to noise and let the original hiss through.
+        const amount = this.sibilance.config.amount;
+        sibilantSample = this.sibilance.process(modulatorSample) * amount;
+        noiseMix = Math.max(noiseMix, this.sibilance.level * amount);
+      }
+      let carrierSample: number;
+      let carrierSampleRight: number;
+      if (carrierLeft) {
+        const noise = this.random() - 0.5;
+        carrierSample = lerp(stereo ? carrierLeft[i] : (carrierLeft[i] + carrierRight[i]) * 0.5, noise, noiseMix);
+        carrierSampleRight = stereo ? lerp(carrierRight[i], noise, noiseMix) : carrierSample;
+      } else {
+        carrierSample = this.carrierSynth.process(smoothed.pitch + mod.pitch, noiseMix, spread);
+        carrierSampleRight = carrierSample;
+        if (stereo) {
+          carrierSample = this.carrierSynth.left;
+          carrierSampleRight = this.carrierSynth.right;
+        }
+      }
+      let outLeft = 0;
+      let outRight = 0;
+      const q = this.bankQ * qScale;
+
+      for (const band of this.bands) {
+        // Keep shifted bands below Nyquist, where the SVF coefficients blow up.
+        const fc = Math.min(0.95, shift * band.freq * dt);
+        band.modFilter.fc = band.carrierFilter.fc = fc;
+        band.modFilter.q = band.carrierFilter.q = q;
+
+        const modFiltered = band.modFilter.process(trueStereo ? modulatorLeftSample : modulatorSample);
+        const envelope = band.envelopeFollower.process(Math.abs(modFiltered));
+        const carrierFiltered = band.carrierFilter.process(carrierSample);
+
+        if (!stereo) {
+          outLeft += carrierFiltered * envelope * band.gain;
+          continue;
+        }
+
+        band.modFilterR.fc = band.carrierFilterR.fc = fc;
+        band.modFilterR.q = band.carrierFilterR.q = q;
+        const envelopeRight = trueStereo
+          ? band.envelopeFollowerR.process(Math.abs(band.modFilterR.process(modulatorRightSample)))
+          : envelope;
+        const carrierFilteredRight = band.carrierFilterR.process(carrierSampleRight);
+        outLeft += carrierFiltered * envelope * band.gain * band.panLeft;
+        outRight += carrierFilteredRight * envelopeRight * band.gain * band.panRight;
+      }
+
+      let vocodedLeft = outLeft * gain;
+      let vocodedRight = vocodedLeft;
+      if (stereo) {
+        const mid = (outLeft + outRight) * 0.5;
+        const side = (outLeft - outRight) * 0.5 * width;
+        vocodedLeft = (mid + side) * gain;
+        vocodedRight = (mid - side) * gain;
+      }
+      const level = this.autoGain.enabled ? this.trackAutoGain(modulatorSample, vocodedLeft, vocodedRight) : 1;
+      leftChannel[i] = vocodedLeft * level + sibilantSample;
+      rightChannel[i] = vocodedRight * level + sibilantSample;
+    }
+  }
+}
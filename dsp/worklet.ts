@@ -0,0 +1,82 @@
+/**
+ * The AudioWorklet entry point, bundled on its own by Vite. Wraps the DSP
+ * cores in processors and forwards port messages to them.
+ */
+import { Bitcrusher } from './bitcrusher';
+import { MasterCore, type MasterMessage } from './master';
+import { VocoderCore, defaultParamValues, type ParamBlock, type VocoderMessage } from './vocoder';
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings leave out.
+interface AudioParamDescriptor {
+  name: string;
+  defaultValue?: number;
+  minValue?: number;
+  maxValue?: number;
+  automationRate?: AutomationRate;
+}
+declare const sampleRate: number;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processor: (new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor) & { parameterDescriptors?: AudioParamDescriptor[] },
+): void;
+
+class VocoderProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [
+      { name: 'carrierNoise', defaultValue: defaultParamValues.carrierNoise, minValue: 0, maxValue: 1, automationRate: 'a-rate' },
+      { name: 'size', defaultValue: defaultParamValues.size, minValue: -2, maxValue: 2, automationRate: 'a-rate' },
+      { name: 'pitch', defaultValue: defaultParamValues.pitch, minValue: -24, maxValue: 24, automationRate: 'a-rate' },
+    ];
+  }
+
+  private core = new VocoderCore(sampleRate);
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<VocoderMessage>) => this.core.handleMessage(event.data);
+  }
+
+  // Input 0 is the modulator, input 1 an optional external carrier.
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: ParamBlock) {
+    this.core.processBlock(inputs[0], inputs[1], outputs[0], parameters);
+    return true;
+  }
+}
+registerProcessor('vocoder-processor', VocoderProcessor);
+
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors(): AudioParamDescriptor[] {
+    return [
+      { name: 'bits', defaultValue: 8, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'downsample', defaultValue: 4, minValue: 1, maxValue: 64, automationRate: 'k-rate' },
+    ];
+  }
+
+  private core = new Bitcrusher();
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+    this.core.processBlock(inputs[0], outputs[0], parameters.bits[0], parameters.downsample[0]);
+    return true;
+  }
+}
+registerProcessor('bitcrusher-processor', BitcrusherProcessor);
+
+class MasterProcessor extends AudioWorkletProcessor {
+  private core = new MasterCore(sampleRate);
+
+  constructor() {
+    super();
+    this.core.onMeter = (reading) => this.port.postMessage({ type: 'METER', reading });
+    this.port.onmessage = (event: MessageEvent<MasterMessage>) => this.core.handleMessage(event.data);
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    this.core.processBlock(inputs[0], outputs[0]);
+    return true;
+  }
+}
+registerProcessor('master-processor', MasterProcessor);
@@ -0,0 +1,144 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  /** Changes with the same key merge into one entry while they belong to the same gesture. */
+  key: string | null;
+  /** Pointer gesture the entry was last changed in. */
+  gesture: number;
+  time: number;
+}
+
+// Oldest entries are dropped beyond this many.
+const HISTORY_LIMIT = 100;
+// Keyboard and MIDI changes to the same control within this time merge into one entry.
+const COALESCE_MS = 1000;
+
+/** Snapshots are flat objects of references, so comparing their fields is enough. */
+const shallowEqual = <T extends object>(a: T, b: T) =>
+  (Object.keys(a) as (keyof T)[]).every(key => a[key] === b[key]);
+
+// Input types that hold no text, so the undo shortcuts stay with the history there.
+const nonTextInputTypes = ['checkbox', 'radio', 'range'];
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (
+    target.isContentEditable ||
+    (target instanceof HTMLInputElement && !nonTextInputTypes.includes(target.type)) ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+
+/**
+ * Keeps an undo/redo history of a state snapshot. Every change to `current`
+ * becomes an entry; call `describeChange` just before making a change to
+ * label it and to merge a drag gesture into a single entry.
+ * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y are bound while mounted.
+ * @param current The current snapshot. Its fields must keep their identity while unchanged.
+ * @param apply Restores a snapshot, such that `current` becomes equal to it again.
+ * @param describeDefault Labels changes that were not described.
+ */
+export const useHistory = <T extends object>(current: T, apply: (snapshot: T) => void, describeDefault: (previous: T, next: T) => string) => {
+  const [history, setHistory] = useState<{ entries: HistoryEntry<T>[]; index: number }>(() => ({
+    entries: [{ label: 'Start', snapshot: current, key: null, gesture: 0, time: 0 }],
+    index: 0,
+  }));
+  const pendingRef = useRef<{ label: string; key: string | null } | null>(null);
+  const gestureRef = useRef(0);
+  const pointerActiveRef = useRef(false);
+
+  useEffect(() => {
+    const handlePointerDown = () => {
+      gestureRef.current++;
+      pointerActiveRef.current = true;
+    };
+    const handlePointerUp = () => {
+      pointerActiveRef.current = false;
+    };
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointerup', handlePointerUp, true);
+    window.addEventListener('pointercancel', handlePointerUp, true);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointerup', handlePointerUp, true);
+      window.removeEventListener('pointercancel', handlePointerUp, true);
+    };
+  }, []);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    setHistory(prev => {
+      const last = prev.entries[prev.index];
+      // Nothing changed, or this is the state undo/redo just restored.
+      if (shallowEqual(current, last.snapshot)) return prev;
+
+      const now = Date.now();
+      const key = pending?.key ?? null;
+      const sameGesture = pointerActiveRef.current ? last.gesture === gestureRef.current : now - last.time < COALESCE_MS;
+      if (key !== null && key === last.key && sameGesture && prev.index > 0) {
+        const entries = prev.entries.slice(0, prev.index + 1);
+        entries[prev.index] = { ...last, snapshot: current, time: now };
+        return { entries, index: prev.index };
+      }
+
+      const entry: HistoryEntry<T> = {
+        label: pending?.label ?? describeDefault(last.snapshot, current),
+        snapshot: current,
+        key,
+        gesture: gestureRef.current,
+        time: now,
+      };
+      const entries = [...prev.entries.slice(0, prev.index + 1), entry].slice(-HISTORY_LIMIT);
+      return { entries, index: entries.length - 1 };
+    });
+    // describeDefault is only consulted for the change being recorded.
+  }, [current]);
+
+  /**
+   * Labels the next change. Changes with the same key merge while the same
+   * pointer gesture is held, or when they follow each other quickly.
+   */
+  const describeChange = useCallback((label: string, key: string | null = null) => {
+    pendingRef.current = { label, key };
+  }, []);
+
+  const goTo = useCallback((index: number) => {
+    const entry = history.entries[index];
+    if (!entry || index === history.index) return;
+    setHistory(prev => ({ ...prev, index }));
+    apply(entry.snapshot);
+  }, [history, apply]);
+
+  const undo = useCallback(() => goTo(history.index - 1), [goTo, history.index]);
+  const redo = useCallback(() => goTo(history.index + 1), [goTo, history.index]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    undo,
+    redo,
+    goTo,
+    describeChange,
+  };
+};
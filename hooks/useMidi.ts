@@ -0,0 +1,76 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { parseMidiMessage, type MidiEvent } from '../utils/midi';
+
+type RequestMidiAccess = () => Promise<MIDIAccess>;
+
+const defaultRequestAccess: RequestMidiAccess | null =
+  typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator
+    ? () => navigator.requestMIDIAccess()
+    : null;
+
+/**
+ * Listens to every connected MIDI input and forwards decoded events.
+ * @param onEvent Called for every note, controller and pitch bend message.
+ * @param requestAccess Provides the MIDIAccess object, replaceable with a virtual or mocked one.
+ */
+export const useMidi = (onEvent: (event: MidiEvent) => void, requestAccess: RequestMidiAccess | null = defaultRequestAccess) => {
+  const [isMidiEnabled, setIsMidiEnabled] = useState(false);
+  const [midiInputs, setMidiInputs] = useState<string[]>([]);
+  const [midiError, setMidiError] = useState<string | null>(null);
+
+  const accessRef = useRef<MIDIAccess | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const handleMessage = useCallback((e: MIDIMessageEvent) => {
+    const event = parseMidiMessage(e.data);
+    if (event) {
+      onEventRef.current(event);
+    }
+  }, []);
+
+  const bindInputs = useCallback((access: MIDIAccess) => {
+    const names: string[] = [];
+    access.inputs.forEach((input) => {
+      input.onmidimessage = handleMessage;
+      names.push(input.name || input.id);
+    });
+    setMidiInputs(names);
+  }, [handleMessage]);
+
+  const enableMidi = useCallback(async () => {
+    if (accessRef.current) return;
+    if (!requestAccess) {
+      setMidiError('Web MIDI is not supported in this browser.');
+      return;
+    }
+    try {
+      const access = await requestAccess();
+      accessRef.current = access;
+      // Devices plugged in later need their handler attached too.
+      access.onstatechange = () => bindInputs(access);
+      bindInputs(access);
+      setIsMidiEnabled(true);
+      setMidiError(null);
+    } catch (err) {
+      console.error("MIDI access denied or error:", err);
+      setMidiError('MIDI access was denied.');
+    }
+  }, [requestAccess, bindInputs]);
+
+  const disableMidi = useCallback(() => {
+    const access = accessRef.current;
+    if (!access) return;
+    access.onstatechange = null;
+    access.inputs.forEach((input) => {
+      input.onmidimessage = null;
+    });
+    accessRef.current = null;
+    setMidiInputs([]);
+    setIsMidiEnabled(false);
+  }, []);
+
+  useEffect(() => disableMidi, [disableMidi]);
+
+  return { isMidiSupported: requestAccess !== null, isMidiEnabled, midiInputs, midiError, enableMidi, disableMidi };
+};
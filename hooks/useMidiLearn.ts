@@ -0,0 +1,59 @@
+import { useState, useCallback } from 'react';
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+/**
+ * Maps MIDI controllers onto parameters, assigning them by "learning" the next controller moved.
+ * @param ranges The range each parameter's controller value is scaled to.
+ * @param onChange Called with the scaled value when a mapped controller moves.
+ */
+export const useMidiLearn = <K extends string>(ranges: Record<K, Range>, onChange: (param: K, value: number) => void) => {
+  const [ccMappings, setCcMappings] = useState<Partial<Record<K, number>>>({});
+  const [learningParam, setLearningParam] = useState<K | null>(null);
+
+  const toggleLearn = useCallback((param: K) => {
+    setLearningParam(prev => prev === param ? null : param);
+  }, []);
+
+  const clearMapping = useCallback((param: K) => {
+    setCcMappings(prev => {
+      const next = { ...prev };
+      delete next[param];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Handles a control change message.
+   * @returns True if the message was used for learning or a mapped parameter.
+   */
+  const handleControlChange = useCallback((controller: number, value: number): boolean => {
+    if (learningParam) {
+      setCcMappings(prev => {
+        // A controller drives a single parameter, so drop any older assignment.
+        const next = Object.fromEntries(
+          Object.entries(prev).filter(([, cc]) => cc !== controller)
+        ) as Partial<Record<K, number>>;
+        next[learningParam] = controller;
+        return next;
+      });
+      setLearningParam(null);
+      return true;
+    }
+
+    let handled = false;
+    (Object.keys(ccMappings) as K[]).forEach(param => {
+      if (ccMappings[param] === controller) {
+        const range = ranges[param];
+        onChange(param, range.min + (value / 127) * (range.max - range.min));
+        handled = true;
+      }
+    });
+    return handled;
+  }, [learningParam, ccMappings, ranges, onChange]);
+
+  return { ccMappings, learningParam, toggleLearn, clearMapping, handleControlChange };
+};
@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Patch, Preset } from '../types';
+import { factoryPresets, loadUserPresets, saveUserPreset, deleteUserPreset, createPresetId } from '../utils/presets';
+import { serializePatchFile, parsePatchFile, encodePatchHash, decodePatchHash } from '../utils/patch';
+
+// Delay before the URL hash follows the current patch, so dragging a slider does not flood the history API.
+const HASH_UPDATE_DELAY_MS = 300;
+
+/**
+ * Manages factory and user presets, patch files and the shareable URL hash.
+ * The current patch is mirrored into the URL so a reload or a copied link
+ * brings the same sound back.
+ * @param patch The current patch.
+ * @param onLoad Called with a patch to apply, from a preset, a file or the URL,
+ * and a short description of where it came from.
+ */
+export const usePresets = (patch: Patch, onLoad: (patch: Patch, source: string) => void) => {
+  const [userPresets, setUserPresets] = useState<Preset[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadUserPresets().then(setUserPresets).catch(error => {
+      console.error("Failed to load presets:", error);
+      setPresetError('Saved presets could not be loaded.');
+    });
+  }, []);
+
+  useEffect(() => {
+    const shared = decodePatchHash(window.location.hash);
+    if (shared) onLoad(shared, 'Shared link');
+    // Only the URL the app was opened with is read.
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      history.replaceState(null, '', encodePatchHash(patch));
+    }, HASH_UPDATE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [patch]);
+
+  const presets = useMemo(() => [...factoryPresets, ...userPresets], [userPresets]);
+  const selectedPreset = presets.find(preset => preset.id === selectedId) ?? null;
+  const isModified = selectedPreset !== null && JSON.stringify(selectedPreset.patch) !== JSON.stringify(patch);
+
+  const loadPreset = useCallback((id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setSelectedId(id);
+    setPresetError(null);
+    onLoad(preset.patch, `Preset "${preset.name}"`);
+  }, [presets, onLoad]);
+
+  const storePreset = useCallback(async (preset: Preset) => {
+    await saveUserPreset(preset);
+    setUserPresets(prev => [...prev.filter(p => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedId(preset.id);
+  }, []);
+
+  /** Saves the current patch, overwriting a user preset of the same name. */
+  const savePreset = useCallback(async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const existing = userPresets.find(p => p.name === trimmed);
+    try {
+      await storePreset({ id: existing?.id ?? createPresetId(), name: trimmed, factory: false, patch });
+      setPresetError(null);
+    } catch (error) {
+      console.error("Failed to save preset:", error);
+      setPresetError(`"${trimmed}" could not be saved.`);
+    }
+  }, [userPresets, patch, storePreset]);
+
+  const deletePreset = useCallback(async (id: string) => {
+    const preset = userPresets.find(p => p.id === id);
+    if (!preset) return;
+    try {
+      await deleteUserPreset(id);
+      setUserPresets(prev => prev.filter(p => p.id !== id));
+      if (selectedId === id) setSelectedId(null);
+    } catch (error) {
+      console.error("Failed to delete preset:", error);
+      setPresetError(`"${preset.name}" could not be deleted.`);
+    }
+  }, [userPresets, selectedId]);
+
+  const exportPatch = useCallback(() => {
+    const name = selectedPreset?.name ?? 'Untitled';
+    const blob = new Blob([serializePatchFile(name, patch)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.style.display = 'none';
+    a.href = url;
+    a.download = `${name.replace(/[\\/:*?"<>|]+/g, '_')}.lomodics.json`;
+    document.body.appendChild(a);
+    a.click();
+
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+      a.remove();
+    }, 100);
+  }, [selectedPreset, patch]);
+
+  /** Applies a patch file and adds it to the user presets. */
+  const importPatch = useCallback(async (file: File) => {
+    try {
+      const { name, patch: imported } = parsePatchFile(await file.text());
+      onLoad(imported, `Import "${name}"`);
+      const existing = userPresets.find(p => p.name === name);
+      await storePreset({ id: existing?.id ?? createPresetId(), name, factory: false, patch: imported });
+      setPresetError(null);
+    } catch (error) {
+      console.error("Failed to import patch:", error);
+      setPresetError(`Could not import "${file.name}". ${error instanceof Error ? error.message : ''}`.trim());
+    }
+  }, [onLoad, userPresets, storePreset]);
+
+  /**
+   * Copies a link that reproduces the current patch.
+   * @returns False if the clipboard could not be written.
+   */
+  const copyShareLink = useCallback(async () => {
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${encodePatchHash(patch)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      return true;
+    } catch (error) {
+      console.error("Failed to copy share link:", error);
+      setPresetError('The link could not be copied, copy it from the address bar instead.');
+      return false;
+    }
+  }, [patch]);
+
+  return {
+    presets, selectedPreset, isModified, presetError,
+    loadPreset, savePreset, deletePreset, exportPatch, importPatch, copyShareLink,
+  };
+};
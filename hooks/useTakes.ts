@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Take, TakeSource } from '../types';
+import { createTake, loadTakes, saveTake, deleteStoredTake, withTakeBuffer } from '../utils/takes';
+
+/**
+ * Keeps every recording, imported file and sample of the session in a take
+ * list persisted to IndexedDB, so a new recording or a reset no longer loses
+ * the previous one. Takes that cannot be stored stay in the list until reload.
+ */
+export const useTakes = () => {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [takeError, setTakeError] = useState<string | null>(null);
+  // Every buffer each take has held, so undoing a waveform edit finds its take again.
+  const takeIdsRef = useRef(new WeakMap<AudioBuffer, string>());
+
+  useEffect(() => {
+    loadTakes().then(loaded => {
+      loaded.forEach(take => takeIdsRef.current.set(take.buffer, take.id));
+      // Anything captured before the stored takes arrived goes after them.
+      setTakes(prev => [...loaded, ...prev.filter(take => !loaded.some(l => l.id === take.id))]);
+    }).catch(error => {
+      console.error("Failed to load takes:", error);
+      setTakeError('Saved takes could not be loaded.');
+    });
+  }, []);
+
+  /**
+   * Adds a newly captured clip. The bundled sample is only listed once, later
+   * loads of it take over the existing entry instead.
+   */
+  const addTake = useCallback(async (buffer: AudioBuffer, name: string, source: TakeSource) => {
+    const sample = source === 'sample' ? takes.find(take => take.source === 'sample') : undefined;
+    if (sample) {
+      takeIdsRef.current.set(buffer, sample.id);
+      setTakes(prev => prev.map(take => take.id === sample.id ? { ...take, buffer } : take));
+      return;
+    }
+    const take = createTake(buffer, name, source);
+    takeIdsRef.current.set(buffer, take.id);
+    setTakes(prev => [...prev, take]);
+    try {
+      await saveTake(take);
+      setTakeError(null);
+    } catch (error) {
+      console.error("Failed to store take:", error);
+      setTakeError(`"${name}" is kept for this session only, it could not be stored.`);
+    }
+  }, [takes]);
+
+  /**
+   * Stores new audio for a take, so waveform edits and their undo reach the
+   * take list and survive a reload. The take is the one that once held
+   * `buffer`, as on undo and redo, or else the one holding `previous`.
+   * Clips that belong to no take are ignored.
+   */
+  const updateTakeBuffer = useCallback(async (buffer: AudioBuffer, previous?: AudioBuffer) => {
+    const id = takeIdsRef.current.get(buffer) ?? (previous && takeIdsRef.current.get(previous));
+    const take = takes.find(t => t.id === id);
+    if (!take || take.buffer === buffer) return;
+    const updated = withTakeBuffer(take, buffer);
+    takeIdsRef.current.set(buffer, take.id);
+    setTakes(prev => prev.map(t => t.id === take.id ? updated : t));
+    try {
+      await saveTake(updated);
+    } catch (error) {
+      console.error("Failed to store edited take:", error);
+      setTakeError(`The edit to "${take.name}" is kept for this session only, it could not be stored.`);
+    }
+  }, [takes]);
+
+  const renameTake = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    const take = takes.find(t => t.id === id);
+    if (!take || !trimmed || trimmed === take.name) return;
+    const renamed = { ...take, name: trimmed };
+    setTakes(prev => prev.map(t => t.id === id ? renamed : t));
+    try {
+      await saveTake(renamed);
+    } catch (error) {
+      console.error("Failed to rename take:", error);
+      setTakeError(`"${trimmed}" could not be stored under its new name.`);
+    }
+  }, [takes]);
+
+  const deleteTake = useCallback(async (id: string) => {
+    const take = takes.find(t => t.id === id);
+    if (!take) return;
+    setTakes(prev => prev.filter(t => t.id !== id));
+    try {
+      await deleteStoredTake(id);
+    } catch (error) {
+      console.error("Failed to delete take:", error);
+      setTakeError(`"${take.name}" could not be removed from storage and may come back after a reload.`);
+    }
+  }, [takes]);
+
+  return { takes, takeError, addTake, updateTakeBuffer, renameTake, deleteTake };
+};
@@ -1,261 +1,295 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { type VocoderParams, type RecordingState } from '../types';
+import { type VocoderParams, type VocoderSettings, type RecordingState, type LiveLatency, type CarrierSource, type RenderSettings, type LoopRegion, type WaveformEdit, type AutomatableParam, type AutomationLanes, type MeterReading, type Take, type TakeSource } from '../types';
+import { type MidiEvent } from '../utils/midi';
+import { encodeAudio, expandFilenameTemplate } from '../utils/audioExport';
+import { applyBufferEdit, normalizeBuffer } from '../utils/bufferEdit';
+import { normalizeLoudness } from '../utils/loudness';
+import { BEATS_PER_BAR } from '../utils/tempo';
+import { vocoderSettingsMessages } from '../dsp/vocoder';
+import vocoderWorkletUrl from '../dsp/worklet.ts?worker&url';
+import { createEffectChain, type EffectChain } from '../utils/effects';
+import { automatableParams, automationValueAt, emptyAutomation, forEachAutomationPoint, writeAutomationPoint } from '../utils/automation';
 
-/**
- * Converts an AudioBuffer to a WAV file Blob.
- * @param buffer The AudioBuffer to convert.
- * @returns A Blob representing the WAV file.
- */
-function audioBufferToWav(buffer: AudioBuffer): Blob {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferArr = new ArrayBuffer(length);
-  const view = new DataView(bufferArr);
-  let pos = 0;
-
-  const setUint16 = (data: number) => {
-    view.setUint16(pos, data, true);
-    pos += 2;
-  };
-
-  const setUint32 = (data: number) => {
-    view.setUint32(pos, data, true);
-    pos += 4;
-  };
-
-  // RIFF header
-  setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
-  setUint32(0x45564157); // "WAVE"
-
-  // fmt chunk
-  setUint32(0x20746d66); // "fmt "
-  setUint32(16); // chunk length
-  setUint16(1); // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2); // block-align
-  setUint16(16); // 16-bit
-
-  // data chunk
-  setUint32(0x61746164); // "data"
-  setUint32(length - pos - 4); // chunk length
-
-  // Write interleaved PCM data
-  const channels = [];
-  for (let i = 0; i < numOfChan; i++) {
-    channels.push(buffer.getChannelData(i));
-  }
-
-  let offset = 0;
-  while (pos < length) {
-    for (let i = 0; i < numOfChan; i++) {
-      // clamp and convert to 16-bit signed integer
-      const sample = Math.max(-1, Math.min(1, channels[i][offset] || 0));
-      view.setInt16(pos, sample < 0 ? sample * 32768 : sample * 32767, true);
-      pos += 2;
-    }
-    offset++;
-  }
-
-  return new Blob([view], { type: 'audio/wav' });
-}
-
-// A base64 encoded WAV file of a person saying "Hello". Public Domain.
 const SAMPLE_AUDIO_BASE64 = 'UklGRigCAABXQVZFZm10IBAAAAABAAEARKwAAIhYAQACABgAAABkYXRhJgIAAP9/AIAAgQCEAIYAhwCJAIoAiwCNAI8AkQCTAJUAlwCZAJkAmgCcAJ4AogCiAKMApACmAKgAqgCsAK4AsACzALcAvQDCAMQAygDNANEA0wDXANkA2wDfAOMA5ADlAOcBAQIGAAYCCQIOAhQCFwIZAh0CIgIkAicCKQIsAjACNwI+AkMCSQJOAlMCSwJOAk4CUgJPAk8CTwJPAk4CTQJNAksCSQJH/v//AQMEBQYHCQoLDA0ODxAREhMUFRYXGBkaGxwdHh8gISIjJCUmJygpKissLS4vMDEyMzQ1Njc4OTo7PD0+P0BBQkNERUZHSElKS0xNTk9QUVJTVFVWV1hZWltcXV5fYGFiY2RlZmdoaWprbG1ub3BxcnN0dXZ3eHl6e3x9fn+AgYKDhIWGh4iJiouMjY6PkJGSk5SVlpeYmZqbnJ2en6ChoqOkpaanqKmqq6ytrq+wsbKztLW2t7i5uru8vb6/wMHCw8TFxsfIycrLzM3Oz9DR0tPU1dZXV1hZWltcXV5fYGFiY2RlZmdoaWprbG1ub3BxcnN0dXZ3eHl6e3x9fn+AgYKDhIWGh4iJiouMjY6PkJGSk5SVlpeYmZqbnJ2en6ChoqOkpaanqKmqq6ytrq+wsbKztLW2t7i5uru8vb6/wMHCw8TFxsfIycrLzM3Oz9DR0tPU1dZXV1hZWltcXV5fYGFiY2RlZmdoaWprbG1ub3BxcnN0dXZ3eHl6e3x9fn+AgYKDhIWGh4iJiouMjY6PkJGSk5SVlpeYmZqbnJ2en6ChoqOkpaanqKmqq6ytrq+wsbKztLW2t7i5uru8vb6/wMHCw8TFxsfIycrLzM3Oz9DR0tPU1dY=';
 
-const vocoderWorkletCode = `
-const midi_to_hz = (n) => 2 ** ((n - 69) / 12) * 440;
-const lerp = (a, b, t) => a + (b - a) * t;
-
-class SVF {
-    stages; mode; fc; q; num; _fc; _q; g; k; a1; a2; a3;
-    constructor(opt) {
-        this.stages = [];
-        this.mode = opt?.mode || 'lp';
-        this.num = opt?.num || 1;
-        for(let i = 0; i < this.num; ++i) {
-            this.stages.push({lp:0,bp:0,hp:0,ap:0,ic1eq:0,ic2eq:0});
-        }
-        this.q = opt?.q ?? 1;
-        this.fc = opt?.fc ?? .25;
-    }
-    _clock(s, input, a1, a2, a3) {
-        const v3 = input - s.ic2eq;
-        const v1 = a1 * s.ic1eq + a2 * v3;
-        const v2 = s.ic2eq + a2 * s.ic1eq + a3 * v3;
-        s.ic1eq = 2 * v1 - s.ic1eq;
-        s.ic2eq = 2 * v2 - s.ic2eq;
-        s.lp = v2; s.bp = v1;
-    }
-    process(input) {
-        if(this.fc !== this._fc || this.q !== this._q) {
-            this._fc = this.fc;
-            this._q = this.q;
-            const fc = this.fc * 0.5;
-            this.g = Math.tan(Math.PI * fc);
-            this.k = 1 / this.q;
-            this.a1 = 1 / (1 + this.g * (this.g + this.k));
-            this.a2 = this.g * this.a1;
-            this.a3 = this.g * this.a2;
-        }
-        for(let i = 0; i < this.num; ++i) {
-            this._clock(this.stages[i], input, this.a1, this.a2, this.a3);
-            this._clock(this.stages[i], input, this.a1, this.a2, this.a3);
-            input = this.stages[i][this.mode];
-        }
-        return input;
-    }
-}
+// Output peak above which monitoring is considered to be feeding back.
+const FEEDBACK_PEAK_THRESHOLD = 0.98;
+// Number of consecutive hot checks (100 ms apart) before monitoring is cut.
+const FEEDBACK_HOLD_CHECKS = 10;
+// Time constant used when fading the monitor in or out, to avoid clicks.
+const MONITOR_RAMP_SECONDS = 0.02;
 
-class EnvelopeFollower {
-    a; y1;
-    constructor(attack, release) {
-        this.a = { attack, release };
-        this.y1 = 0;
+/**
+ * Maps a getUserMedia failure to a message suitable for display.
+ * @param err The error thrown by getUserMedia.
+ * @returns A human readable description of the failure.
+ */
+const describeMicError = (err: unknown): string => {
+    if (err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError')) {
+        return 'Microphone access was denied.';
     }
-    process(x) {
-        const c = x > this.y1 ? this.a.attack : this.a.release;
-        this.y1 = (1 - c) * this.y1 + c * x;
-        return this.y1;
+    if (err instanceof DOMException && err.name === 'NotFoundError') {
+        return 'No microphone was found. Please ensure a microphone is connected and enabled.';
     }
-}
-
-class VocoderProcessor extends AudioWorkletProcessor {
-  params; ditty; carrierSynth; bands;
-  constructor() {
-    super();
-    this.params = { carrierNoise: 0.1, size: 0, speed: 1, pitch: 0.3 };
-    this.ditty = { dt: 1 / sampleRate };
-    
-    this.carrierSynth = this.initCarrierSynth();
-    this.bands = this.initBands();
+    return 'An unknown error occurred while trying to access the microphone.';
+};
 
-    this.port.onmessage = (event) => {
-        if (event.data.type === 'UPDATE_PARAMS') {
-            this.params = event.data.params;
-        }
-    };
-  }
-
-  initCarrierSynth() {
-    class Sy {
-        ops; nunison; freq;
-        constructor() {
-            this.ops = [];
-            this.nunison = 3;
-            const amp = 1 / this.nunison;
-            for(let i = 0; i < this.nunison; ++i) {
-                const t = this.nunison > 1 ? i / (this.nunison-1) : .5;
-                const semitn = (t * 2 - 1) * 0.1;
-                this.ops.push({ p: Math.random(), detune: 2**(semitn/12) });
-            }
-        }
-        process(that) {
-            this.freq = midi_to_hz(40 + that.params.pitch) * that.ditty.dt;
-            let val = 0;
-            for(let i = 0; i < this.ops.length; ++i) {
-                const op = this.ops[i];
-                val += (op.p < 0.5 ? 1 : -1);
-                op.p += this.freq * op.detune;
-                op.p %= 1;
-            }
-            val /= this.ops.length;
-            return lerp(val, Math.random()-.5, that.params.carrierNoise);
-        }
+/**
+ * Maps an audio file that could not be loaded to a message suitable for display.
+ * @param file The file that was picked or dropped.
+ * @param err The error thrown while reading or decoding it.
+ * @returns A human readable description of the failure.
+ */
+const describeDecodeError = (file: File, err: unknown): string => {
+    if (file.size === 0) {
+        return `"${file.name}" is empty.`;
     }
-    return new Sy();
-  }
-  
-  initBands() {
-      const freqs = [123, 294, 481, 746, 1387, 2255, 3403, 4865];
-      const bands = [];
-      const attack = 0.005;
-      const release = 0.02;
-      for (let i = 0; i < freqs.length; i++) {
-          bands.push({
-              freq: freqs[i],
-              modFilter: new SVF({ mode: 'bp', num: 2, q: 4 }),
-              carrierFilter: new SVF({ mode: 'bp', num: 2, q: 4 }),
-              envelopeFollower: new EnvelopeFollower(attack, release),
-          });
-      }
-      return bands;
-  }
-
-  process(inputs, outputs) {
-    const modulatorInput = inputs[0];
-    const output = outputs[0];
-    const leftChannel = output[0];
-    const rightChannel = output.length > 1 ? output[1] : leftChannel;
-
-    if (modulatorInput.length === 0 || modulatorInput[0].length === 0) {
-        for (let i = 0; i < leftChannel.length; i++) {
-            leftChannel[i] = 0;
-            rightChannel[i] = 0;
-        }
-        return true;
+    if (file.type && !file.type.startsWith('audio/') && !file.type.startsWith('video/')) {
+        return `"${file.name}" is not an audio file.`;
     }
-    const modulatorChannel = modulatorInput[0];
-
-    for (let i = 0; i < leftChannel.length; i++) {
-        const modulatorSample = modulatorChannel[i];
-        const carrierSample = this.carrierSynth.process(this);
-        let outSample = 0;
-
-        for (const band of this.bands) {
-            const fc = (2**this.params.size) * band.freq * this.ditty.dt;
-            band.modFilter.fc = fc;
-            band.carrierFilter.fc = fc;
-            
-            const modFiltered = band.modFilter.process(modulatorSample);
-            const envelope = band.envelopeFollower.process(Math.abs(modFiltered));
-            
-            const carrierFiltered = band.carrierFilter.process(carrierSample);
-            
-            outSample += carrierFiltered * envelope;
-        }
-        
-        const finalSample = outSample * 4; // Gain compensation
-        leftChannel[i] = finalSample;
-        rightChannel[i] = finalSample;
+    if (err instanceof DOMException && err.name === 'EncodingError') {
+        return `"${file.name}" could not be decoded. This browser may not support its format, try WAV, MP3, OGG or FLAC.`;
     }
-    return true;
-  }
-}
-registerProcessor('vocoder-processor', VocoderProcessor);
-`;
+    return `An unknown error occurred while reading "${file.name}".`;
+};
 
-const createWorklet = (context: AudioContext) => {
-    const blob = new Blob([vocoderWorkletCode], { type: 'application/javascript' });
-    const url = URL.createObjectURL(blob);
-    return context.audioWorklet.addModule(url).then(() => url);
+/**
+ * Brings a decoded buffer to mono or stereo at the given sample rate. The
+ * vocoder reads at most two modulator channels: their mid, or each on its
+ * own in true stereo mode.
+ * @param buffer The decoded audio.
+ * @param sampleRate The sample rate of the context it will play in.
+ * @returns A mono or stereo buffer, or the original buffer if it already fits.
+ */
+const prepareModulatorBuffer = async (buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> => {
+    if (buffer.numberOfChannels <= 2 && buffer.sampleRate === sampleRate) {
+        return buffer;
+    }
+    // Rendering through an offline context resamples and applies the
+    // standard speaker downmix of surround files in one pass.
+    const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+    const offlineContext = new OfflineAudioContext(Math.min(2, buffer.numberOfChannels), length, sampleRate);
+    const source = offlineContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(offlineContext.destination);
+    source.start();
+    return offlineContext.startRendering();
+};
+
+// Options shared by every vocoder node: input 0 is the modulator, input 1 an
+// optional external carrier. The output is always stereo.
+const VOCODER_NODE_OPTIONS: AudioWorkletNodeOptions = {
+    numberOfInputs: 2,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+};
+
+/**
+ * Sends every message-based worklet setting to a vocoder node, used when a node is created.
+ * @param port The message port of the vocoder node.
+ * @param settings The settings for everything besides the main voice parameters.
+ * @param speed The speed the modulator is played at.
+ */
+const postAllSettings = (port: MessagePort, settings: VocoderSettings, speed: number) => {
+    vocoderSettingsMessages(settings, speed).forEach(message => port.postMessage(message));
+};
+
+/**
+ * Creates a vocoder node with its AudioParams starting at the given values
+ * and every other setting sent.
+ * @param context The context the node belongs to.
+ * @param params The main voice parameters.
+ * @param settings The settings for everything besides the main voice parameters.
+ */
+const createVocoderNode = (context: BaseAudioContext, params: VocoderParams, settings: VocoderSettings) => {
+    const parameterData: Record<string, number> = {};
+    automatableParams.forEach(param => {
+        parameterData[param] = params[param];
+    });
+    const node = new AudioWorkletNode(context, 'vocoder-processor', { ...VOCODER_NODE_OPTIONS, parameterData });
+    postAllSettings(node.port, settings, params.speed);
+    return node;
 };
 
-export const useVocoderAudio = (params: VocoderParams) => {
+/**
+ * Creates the master node that ends the chain: output gain, limiter and meter.
+ * @param context The context the node belongs to.
+ * @param settings The settings holding the master section.
+ */
+const createMasterNode = (context: BaseAudioContext, settings: VocoderSettings) => {
+    const node = new AudioWorkletNode(context, 'master-processor', { outputChannelCount: [2] });
+    node.port.postMessage({ type: 'SET_MASTER', master: settings.master });
+    return node;
+};
+
+/** Reads one of the vocoder node's AudioParams. */
+const getAudioParam = (node: AudioWorkletNode, param: AutomatableParam) => node.parameters.get(param) as AudioParam;
+
+// Peak level that normalised renders are scaled to, in dBFS.
+const NORMALIZE_PEAK_DB = -1;
+// Shortest loop region the editor allows, in seconds.
+const MIN_LOOP_SECONDS = 0.01;
+// How far ahead automation is scheduled onto the AudioParams, and how often, in seconds and milliseconds.
+const AUTOMATION_LOOKAHEAD_SECONDS = 0.2;
+const AUTOMATION_INTERVAL_MS = 50;
+// A slider that has not moved for this long hands its parameter back to the lane, in milliseconds.
+const AUTOMATION_TOUCH_MS = 300;
+// Length of audio rendered between progress updates.
+const RENDER_CHUNK_SECONDS = 1;
+// How far ahead metronome clicks are scheduled, and how often, in seconds and milliseconds.
+const METRONOME_LOOKAHEAD_SECONDS = 0.1;
+const METRONOME_INTERVAL_MS = 25;
+// Gap before the first count-in click, leaving time to schedule it.
+const COUNT_IN_LEAD_SECONDS = 0.1;
+
+/**
+ * Plays one metronome click straight to the speakers, so it is never vocoded or recorded.
+ * @param context The running audio context.
+ * @param time Context time of the click.
+ * @param accent Whether the click starts a bar, which is higher and louder.
+ * @returns The oscillator, to stop the click early.
+ */
+const playClick = (context: AudioContext, time: number, accent: boolean) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = accent ? 1760 : 880;
+    gain.gain.setValueAtTime(accent ? 0.5 : 0.3, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.onended = () => gain.disconnect();
+    oscillator.start(time);
+    oscillator.stop(time + 0.05);
+    return oscillator;
+};
+
+/**
+ * Runs an offline render in chunks by suspending the context at regular
+ * intervals, reporting progress and checking for cancellation in between.
+ * @param context The fully wired offline context.
+ * @param onProgress Called with the rendered fraction, from 0 to 1.
+ * @param signal Aborting it stops the render at the next chunk boundary.
+ * @returns The rendered buffer, or null if the render was cancelled.
+ */
+const renderInChunks = (context: OfflineAudioContext, onProgress: (progress: number) => void, signal: AbortSignal) => {
+    return new Promise<AudioBuffer | null>((resolve, reject) => {
+        const chunkFrames = Math.max(128, Math.round(RENDER_CHUNK_SECONDS * context.sampleRate / 128) * 128);
+        for (let frame = chunkFrames; frame < context.length; frame += chunkFrames) {
+            context.suspend(frame / context.sampleRate).then(() => {
+                if (signal.aborted) {
+                    // Left suspended, the context is simply dropped.
+                    resolve(null);
+                    return;
+                }
+                onProgress(frame / context.length);
+                context.resume();
+            });
+        }
+        context.startRendering().then(resolve, reject);
+    });
+};
+
+/**
+ * Estimates the live monitoring latency of an audio context.
+ * @param context The running audio context.
+ * @returns The latency figures in milliseconds.
+ */
+const measureLatency = (context: AudioContext): LiveLatency => {
+    const base = (context.baseLatency || 0) * 1000;
+    const output = (context.outputLatency || 0) * 1000;
+    const quantum = (128 / context.sampleRate) * 1000;
+    return { base, output, total: base + output + quantum };
+};
+
+/**
+ * Runs the vocoder: recording, playback, live input, carriers and renders.
+ * @param params The vocoder's main parameters.
+ * @param settings The rest of the patch.
+ * @param onCapture Called with every new modulator clip, recorded, imported
+ * or the sample, with a name for it and where it came from.
+ */
+export const useVocoderAudio = (
+  params: VocoderParams,
+  settings: VocoderSettings,
+  onCapture?: (buffer: AudioBuffer, name: string, source: TakeSource) => void,
+) => {
   const [recordingState, setRecordingState] = useState<RecordingState>('idle');
   const [analyserNode, setAnalyserNode] = useState<AnalyserNode | null>(null);
   const [isSampleLoaded, setIsSampleLoaded] = useState(false);
   const [micError, setMicError] = useState<string | null>(null);
+  const [inputGain, setInputGain] = useState(1);
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [liveLatency, setLiveLatency] = useState<LiveLatency | null>(null);
+  const [liveWarning, setLiveWarning] = useState<string | null>(null);
+  const [carrierSource, setCarrierSourceState] = useState<CarrierSource>('synth');
+  const [carrierFileName, setCarrierFileName] = useState<string | null>(null);
+  const [carrierDevices, setCarrierDevices] = useState<MediaDeviceInfo[]>([]);
+  const [carrierDeviceId, setCarrierDeviceId] = useState<string | null>(null);
+  const [carrierError, setCarrierError] = useState<string | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [modulatorFileName, setModulatorFileName] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [modulatorBuffer, setModulatorBuffer] = useState<AudioBuffer | null>(null);
+  const [loopRegion, setLoopRegionState] = useState<LoopRegion | null>(null);
+  const [automation, setAutomationState] = useState<AutomationLanes>(emptyAutomation);
+  const [isAutomationArmed, setIsAutomationArmedState] = useState(false);
+  const [isAutomationEnabled, setIsAutomationEnabledState] = useState(true);
+  const [auditionBuffer, setAuditionBuffer] = useState<AudioBuffer | null>(null);
+  const [isMetronomeOn, setIsMetronomeOn] = useState(false);
+  const [isCountInOn, setIsCountInOn] = useState(false);
+  const [isCountingIn, setIsCountingIn] = useState(false);
 
   const contextRef = useRef<AudioContext | null>(null);
   const vocoderNodeRef = useRef<AudioWorkletNode | null>(null);
+  const effectChainRef = useRef<EffectChain | null>(null);
+  const masterNodeRef = useRef<AudioWorkletNode | null>(null);
+  // Latest output meter reading, polled by the meter display rather than kept in state.
+  const meterRef = useRef<MeterReading | null>(null);
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const recordedBufferRef = useRef<AudioBuffer | null>(null);
+  const loopRegionRef = useRef<LoopRegion | null>(null);
+  // Where and when the current source started, to derive the playhead from the context clock.
+  const playheadAnchorRef = useRef<{ contextTime: number; offset: number; rate: number } | null>(null);
+  // Where playback resumes when stopped, in seconds into the buffer.
+  const cueRef = useRef(0);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const workletUrlRef = useRef<string | null>(null);
   const micSourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const monitorGainNodeRef = useRef<GainNode | null>(null);
+  const inputGainNodeRef = useRef<GainNode | null>(null);
+  const liveStreamRef = useRef<MediaStream | null>(null);
+  const carrierSourceRef = useRef<CarrierSource>('synth');
+  const carrierBufferRef = useRef<AudioBuffer | null>(null);
+  const carrierStreamRef = useRef<MediaStream | null>(null);
+  const carrierNodeRef = useRef<AudioNode | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const auditionSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const onCaptureRef = useRef(onCapture);
+  // Context time of the first beat of a recording, which the metronome counts from.
+  const recordingStartRef = useRef(0);
+  const countInAbortRef = useRef<AbortController | null>(null);
+  onCaptureRef.current = onCapture;
+  const paramsRef = useRef(params);
+  const automationRef = useRef<AutomationLanes>(emptyAutomation);
+  const isAutomationArmedRef = useRef(false);
+  const isAutomationEnabledRef = useRef(true);
+  // Last slider move per parameter: when it happened, wall clock, and where in the recording.
+  const automationTouchRef = useRef<Partial<Record<AutomatableParam, { time: number; position: number }>>>({});
+  // Context time up to which lane points have been handed to the AudioParams.
+  const automationScheduledRef = useRef(0);
 
   const setupAudioContext = useCallback(async () => {
     if (!contextRef.current) {
       try {
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
         contextRef.current = audioContext;
-        const url = await createWorklet(audioContext);
-        workletUrlRef.current = url;
+        await audioContext.audioWorklet.addModule(vocoderWorkletUrl);
         const analyser = audioContext.createAnalyser();
         analyser.fftSize = 2048;
+        // Everything audible passes through the monitor gain, so the mic can
+        // be analysed while recording without being sent to the speakers.
+        const monitorGain = audioContext.createGain();
+        monitorGain.gain.value = 0;
+        analyser.connect(monitorGain).connect(audioContext.destination);
+        monitorGainNodeRef.current = monitorGain;
         setAnalyserNode(analyser);
         return { context: audioContext, analyser };
       } catch (e) {
@@ -265,40 +299,447 @@ export const useVocoderAudio = (params: VocoderParams) => {
     }
     return { context: contextRef.current, analyser: analyserNode };
   }, [analyserNode]);
+
+  const detachCarrier = useCallback(() => {
+    const carrierNode = carrierNodeRef.current;
+    if (!carrierNode) return;
+    if (carrierNode instanceof AudioBufferSourceNode) {
+        carrierNode.stop();
+    }
+    carrierNode.disconnect();
+    carrierNodeRef.current = null;
+  }, []);
+
+  /**
+   * Connects the currently selected external carrier to the vocoder's second
+   * input, replacing whatever was connected before. The internal synth needs
+   * no connection, the worklet falls back to it when the input is empty.
+   */
+  const attachCarrier = useCallback(() => {
+    const context = contextRef.current;
+    const vocoderNode = vocoderNodeRef.current;
+    detachCarrier();
+    if (!context || !vocoderNode) return;
+
+    let carrierNode: AudioNode | null = null;
+    if (carrierSourceRef.current === 'file' && carrierBufferRef.current) {
+        const bufferSource = context.createBufferSource();
+        bufferSource.buffer = carrierBufferRef.current;
+        bufferSource.loop = true;
+        bufferSource.start();
+        carrierNode = bufferSource;
+    } else if (carrierSourceRef.current === 'device' && carrierStreamRef.current) {
+        carrierNode = context.createMediaStreamSource(carrierStreamRef.current);
+    }
+    if (carrierNode) {
+        carrierNode.connect(vocoderNode, 0, 1);
+        carrierNodeRef.current = carrierNode;
+    }
+  }, [detachCarrier]);
+
+  const getVocoderNode = useCallback((context: AudioContext, analyser: AnalyserNode) => {
+    if (!vocoderNodeRef.current) {
+        vocoderNodeRef.current = createVocoderNode(context, params, settings);
+        effectChainRef.current = createEffectChain(context, settings.effects, settings.modulation.tempo);
+        masterNodeRef.current = createMasterNode(context, settings);
+        masterNodeRef.current.port.onmessage = (event) => {
+            if (event.data.type === 'METER') meterRef.current = event.data.reading;
+        };
+        vocoderNodeRef.current.connect(effectChainRef.current.input);
+        effectChainRef.current.output.connect(masterNodeRef.current).connect(analyser);
+        attachCarrier();
+    }
+    return vocoderNodeRef.current;
+  }, [params, settings, attachCarrier]);
+
+  /** Replaces the whole automation, in step with the ref the scheduler reads. */
+  const setAutomation = useCallback((lanes: AutomationLanes) => {
+    automationRef.current = lanes;
+    setAutomationState(lanes);
+  }, []);
+
+  /** Replaces the modulator recording, resetting the loop region to all of it and clearing its automation. */
+  const setModulator = useCallback((buffer: AudioBuffer | null) => {
+    setAutomation(emptyAutomation);
+    recordedBufferRef.current = buffer;
+    setModulatorBuffer(buffer);
+    const region = buffer ? { start: 0, end: buffer.duration } : null;
+    loopRegionRef.current = region;
+    setLoopRegionState(region);
+    cueRef.current = 0;
+  }, [setAutomation]);
+
+  /**
+   * Reads the playhead position, in seconds into the recording. While stopped
+   * this is the cue point that playback starts from.
+   */
+  const getPlaybackPosition = useCallback((contextTime?: number): number => {
+    const context = contextRef.current;
+    const anchor = playheadAnchorRef.current;
+    const region = loopRegionRef.current;
+    if (!context || !anchor || !region || !sourceNodeRef.current) return cueRef.current;
+    const position = anchor.offset + ((contextTime ?? context.currentTime) - anchor.contextTime) * anchor.rate;
+    if (position < region.end) return position;
+    return region.start + (position - region.start) % (region.end - region.start);
+  }, []);
+
+  /** A slider still being moved overrides its lane until it is let go. */
+  const isAutomationTouched = useCallback((param: AutomatableParam) => {
+    const touch = automationTouchRef.current[param];
+    return !!touch && Date.now() - touch.time < AUTOMATION_TOUCH_MS;
+  }, []);
+
+  /** Whether a parameter currently follows its lane rather than its slider. */
+  const isAutomationReplaying = useCallback((param: AutomatableParam) =>
+    isAutomationEnabledRef.current && !!sourceNodeRef.current && automationRef.current[param].length > 0 && !isAutomationTouched(param),
+  [isAutomationTouched]);
+
+  /**
+   * Drops everything scheduled on the vocoder's AudioParams and jumps them to
+   * the value they should have now. Called whenever the playhead jumps or
+   * the lanes change, after which the scheduler picks up from here.
+   */
+  const resetAutomationSchedule = useCallback(() => {
+    const context = contextRef.current;
+    const node = vocoderNodeRef.current;
+    if (!context || !node) return;
+    const now = context.currentTime;
+    const position = getPlaybackPosition(now);
+    automatableParams.forEach(param => {
+      const audioParam = getAudioParam(node, param);
+      audioParam.cancelScheduledValues(now);
+      const value = isAutomationReplaying(param)
+        ? automationValueAt(automationRef.current[param], position, paramsRef.current[param])
+        : paramsRef.current[param];
+      audioParam.setValueAtTime(value, now);
+    });
+    automationScheduledRef.current = now;
+  }, [getPlaybackPosition, isAutomationReplaying]);
+
+  /** Hands the lane points of the next look-ahead window to the AudioParams. */
+  const scheduleAutomation = useCallback(() => {
+    const context = contextRef.current;
+    const node = vocoderNodeRef.current;
+    const anchor = playheadAnchorRef.current;
+    const region = loopRegionRef.current;
+    if (!context || !node || !anchor || !region || !sourceNodeRef.current) return;
+    const from = Math.max(automationScheduledRef.current, context.currentTime);
+    const to = context.currentTime + AUTOMATION_LOOKAHEAD_SECONDS;
+    if (from >= to) return;
+    const position = getPlaybackPosition(from);
+    automatableParams.forEach(param => {
+      if (!isAutomationReplaying(param)) return;
+      const audioParam = getAudioParam(node, param);
+      const lane = automationRef.current[param];
+      // Restates the current value, which also hands the lane back after a slider was let go.
+      audioParam.setValueAtTime(automationValueAt(lane, position, paramsRef.current[param]), from);
+      forEachAutomationPoint(lane, region, position, anchor.rate, from, to, (value, time) => {
+        audioParam.setValueAtTime(value, time);
+      });
+    });
+    automationScheduledRef.current = to;
+  }, [getPlaybackPosition, isAutomationReplaying]);
+
+  /** Starts looping the recording's loop region from an offset, replacing any playing source. */
+  const startSource = useCallback((context: AudioContext, analyser: AnalyserNode, offset: number) => {
+    const buffer = recordedBufferRef.current;
+    const region = loopRegionRef.current;
+    if (!buffer || !region) return;
+    if (sourceNodeRef.current) {
+        sourceNodeRef.current.stop();
+        sourceNodeRef.current.disconnect();
+    }
+    const vocoderNode = getVocoderNode(context, analyser);
+
+    const sourceNode = context.createBufferSource();
+    sourceNode.buffer = buffer;
+    sourceNode.loop = true;
+    sourceNode.loopStart = region.start;
+    sourceNode.loopEnd = region.end;
+    sourceNode.playbackRate.value = params.speed;
+    sourceNode.connect(vocoderNode);
+    sourceNode.start(0, offset);
+    // The sequence starts with playback, as it does in an offline render.
+    vocoderNode.port.postMessage({ type: 'RESET_SEQUENCER' });
+
+    sourceNodeRef.current = sourceNode;
+    playheadAnchorRef.current = { contextTime: context.currentTime, offset, rate: params.speed };
+    resetAutomationSchedule();
+  }, [getVocoderNode, params.speed, resetAutomationSchedule]);
+
+  const refreshCarrierDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    setCarrierDevices(devices.filter(device => device.kind === 'audioinput'));
+  }, []);
+
+  const stopCarrierStream = useCallback(() => {
+    if (carrierStreamRef.current) {
+        carrierStreamRef.current.getTracks().forEach(track => track.stop());
+        carrierStreamRef.current = null;
+    }
+  }, []);
+
+  const setCarrierSource = useCallback((source: CarrierSource) => {
+    carrierSourceRef.current = source;
+    setCarrierSourceState(source);
+    setCarrierError(null);
+    if (source !== 'device') {
+        stopCarrierStream();
+        setCarrierDeviceId(null);
+    } else {
+        refreshCarrierDevices();
+    }
+    attachCarrier();
+  }, [attachCarrier, stopCarrierStream, refreshCarrierDevices]);
+
+  const loadCarrierFile = useCallback(async (file: File) => {
+    const { context } = await setupAudioContext();
+    if (!context) return;
+    try {
+        const arrayBuffer = await file.arrayBuffer();
+        carrierBufferRef.current = await context.decodeAudioData(arrayBuffer);
+        setCarrierFileName(file.name);
+        setCarrierSource('file');
+    } catch (error) {
+        console.error("Failed to decode carrier file:", error);
+        setCarrierError(describeDecodeError(file, error));
+    }
+  }, [setupAudioContext, setCarrierSource]);
+
+  const selectCarrierDevice = useCallback(async (deviceId: string) => {
+    const { context } = await setupAudioContext();
+    if (!context) return;
+    stopCarrierStream();
+    try {
+        carrierStreamRef.current = await navigator.mediaDevices.getUserMedia({
+            audio: { deviceId: { exact: deviceId }, echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        });
+        setCarrierDeviceId(deviceId);
+        setCarrierSource('device');
+        // Device labels are only exposed once permission has been granted.
+        await refreshCarrierDevices();
+    } catch (err) {
+        console.error("Carrier device access denied or error:", err);
+        setCarrierDeviceId(null);
+        setCarrierError(describeMicError(err));
+        attachCarrier();
+    }
+  }, [setupAudioContext, stopCarrierStream, setCarrierSource, refreshCarrierDevices, attachCarrier]);
   
   useEffect(() => {
-    if (vocoderNodeRef.current) {
-      vocoderNodeRef.current.port.postMessage({
-        type: 'UPDATE_PARAMS',
-        params,
+    const previous = paramsRef.current;
+    paramsRef.current = params;
+    const now = contextRef.current?.currentTime || 0;
+    const node = vocoderNodeRef.current;
+    if (node) {
+      automatableParams.forEach(param => {
+        // Lanes being replayed own their AudioParam; the scheduler writes those.
+        if (params[param] === previous[param] || isAutomationReplaying(param)) return;
+        const audioParam = getAudioParam(node, param);
+        audioParam.cancelScheduledValues(now);
+        audioParam.setValueAtTime(params[param], now);
       });
     }
     if(sourceNodeRef.current) {
-        sourceNodeRef.current.playbackRate.setValueAtTime(params.speed, contextRef.current?.currentTime || 0);
+        // Restart the playhead estimate from here, since the rate it advances at changes.
+        const anchor = playheadAnchorRef.current;
+        if (anchor && anchor.rate !== params.speed) {
+            playheadAnchorRef.current = { contextTime: now, offset: getPlaybackPosition(), rate: params.speed };
+            resetAutomationSchedule();
+        }
+        sourceNodeRef.current.playbackRate.setValueAtTime(params.speed, now);
     }
-  }, [params]);
+  }, [params, getPlaybackPosition, isAutomationReplaying, resetAutomationSchedule]);
 
+  useEffect(() => {
+    if (recordingState !== 'playing' || !isAutomationEnabled) return;
+    resetAutomationSchedule();
+    scheduleAutomation();
+    const interval = setInterval(scheduleAutomation, AUTOMATION_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      // Hands the parameters back to the sliders once playback or replay stops.
+      resetAutomationSchedule();
+    };
+  }, [recordingState, isAutomationEnabled, scheduleAutomation, resetAutomationSchedule]);
 
-  const resetRecording = useCallback(async () => {
+  // Clicks the project tempo while recording, counting from the first beat of
+  // the take, and during playback, counting from the start of the loop region.
+  useEffect(() => {
+    const context = contextRef.current;
+    if (!isMetronomeOn || !context || (recordingState !== 'recording' && recordingState !== 'playing')) return;
+    const beat = 60 / settings.modulation.tempo;
+
+    // The first beat at or after a context time, and its number from the start of the grid.
+    const nextBeat = (time: number): { time: number; index: number } | null => {
+        if (recordingState === 'recording') {
+            const index = Math.max(0, Math.ceil((time - recordingStartRef.current) / beat));
+            return { time: recordingStartRef.current + index * beat, index };
+        }
+        const anchor = playheadAnchorRef.current;
+        const region = loopRegionRef.current;
+        if (!anchor || !region) return null;
+        const position = getPlaybackPosition(time);
+        const elapsed = (position - region.start) / anchor.rate;
+        const untilWrap = (region.end - position) / anchor.rate;
+        const index = Math.ceil(elapsed / beat - 1e-6);
+        // The grid starts over with the loop, however long the region is.
+        if (index * beat - elapsed >= untilWrap) return { time: time + untilWrap, index: 0 };
+        return { time: time + index * beat - elapsed, index };
+    };
+
+    const clicks = new Set<OscillatorNode>();
+    let scheduledUntil = context.currentTime;
+    const schedule = () => {
+        const horizon = context.currentTime + METRONOME_LOOKAHEAD_SECONDS;
+        // Beats missed while the tab was throttled are dropped rather than played late.
+        scheduledUntil = Math.max(scheduledUntil, context.currentTime);
+        for (let next = nextBeat(scheduledUntil); next && next.time < horizon; next = nextBeat(scheduledUntil)) {
+            const click = playClick(context, next.time, next.index % BEATS_PER_BAR === 0);
+            clicks.add(click);
+            click.addEventListener('ended', () => clicks.delete(click));
+            scheduledUntil = next.time + 0.001;
+        }
+    };
+    schedule();
+    const interval = setInterval(schedule, METRONOME_INTERVAL_MS);
+    return () => {
+        clearInterval(interval);
+        clicks.forEach(click => click.stop());
+    };
+  }, [isMetronomeOn, recordingState, settings.modulation.tempo, getPlaybackPosition]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_BANK', bank: settings.bank });
+  }, [settings.bank]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_ENVELOPE', envelope: settings.envelope });
+  }, [settings.envelope]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_BAND_LEVELS', bandLevels: settings.bandLevels });
+  }, [settings.bandLevels]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_CARRIER', carrier: settings.carrier });
+  }, [settings.carrier]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_TRACKING', tracking: settings.tracking });
+  }, [settings.tracking]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_SIBILANCE', sibilance: settings.sibilance });
+  }, [settings.sibilance]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_STEREO', stereo: settings.stereo });
+  }, [settings.stereo]);
+
+  useEffect(() => {
+    effectChainRef.current?.update(settings.effects, settings.modulation.tempo);
+  }, [settings.effects, settings.modulation.tempo]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_MODULATION', modulation: settings.modulation });
+  }, [settings.modulation]);
+
+  useEffect(() => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_SEQUENCER', sequencer: settings.sequencer });
+  }, [settings.sequencer]);
+
+  useEffect(() => {
+    // Live input arrives at its own speed, so there is nothing to undo.
+    const speed = recordingState === 'live' ? 1 : params.speed;
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_TIME_STRETCH', timeStretch: settings.timeStretch, speed });
+  }, [settings.timeStretch, params.speed, recordingState]);
+
+  useEffect(() => {
+    masterNodeRef.current?.port.postMessage({ type: 'SET_MASTER', master: settings.master });
+    vocoderNodeRef.current?.port.postMessage({ type: 'SET_AUTO_GAIN', enabled: settings.master.autoGain });
+  }, [settings.master]);
+
+  /** Returns the latest output meter reading, or null before the chain has run. */
+  const getMeterReading = useCallback(() => meterRef.current, []);
+
+  /** Starts the integrated loudness measurement over. */
+  const resetLoudness = useCallback(() => {
+    masterNodeRef.current?.port.postMessage({ type: 'RESET_LOUDNESS' });
+  }, []);
+
+  useEffect(() => {
+    const monitorGain = monitorGainNodeRef.current;
+    const context = contextRef.current;
+    if (!monitorGain || !context) return;
+    const audible = recordingState === 'playing' || (recordingState === 'live' && isMonitoring);
+    monitorGain.gain.setTargetAtTime(audible ? 1 : 0, context.currentTime, MONITOR_RAMP_SECONDS);
+  }, [recordingState, isMonitoring, analyserNode]);
+
+  useEffect(() => {
+    if (inputGainNodeRef.current && contextRef.current) {
+        inputGainNodeRef.current.gain.setTargetAtTime(inputGain, contextRef.current.currentTime, MONITOR_RAMP_SECONDS);
+    }
+  }, [inputGain]);
+
+  // Cuts monitoring if the output sits at full scale, which in live mode
+  // almost always means the speakers are feeding back into the microphone.
+  useEffect(() => {
+    if (recordingState !== 'live' || !isMonitoring || !analyserNode) return;
+    const samples = new Float32Array(analyserNode.fftSize);
+    let hotChecks = 0;
+    const interval = setInterval(() => {
+        analyserNode.getFloatTimeDomainData(samples);
+        let peak = 0;
+        for (let i = 0; i < samples.length; i++) {
+            peak = Math.max(peak, Math.abs(samples[i]));
+        }
+        hotChecks = peak >= FEEDBACK_PEAK_THRESHOLD ? hotChecks + 1 : 0;
+        if (hotChecks >= FEEDBACK_HOLD_CHECKS) {
+            setIsMonitoring(false);
+            setLiveWarning('Feedback detected, monitoring was muted. Use headphones or lower the input gain.');
+        }
+    }, 100);
+    return () => clearInterval(interval);
+  }, [recordingState, isMonitoring, analyserNode]);
+
+  const teardownLiveInput = useCallback(() => {
+    if (liveStreamRef.current) {
+        liveStreamRef.current.getTracks().forEach(track => track.stop());
+        liveStreamRef.current = null;
+    }
+    if (inputGainNodeRef.current) {
+        inputGainNodeRef.current.disconnect();
+        inputGainNodeRef.current = null;
+    }
     if (micSourceNodeRef.current) {
         micSourceNodeRef.current.disconnect();
         micSourceNodeRef.current = null;
     }
+    setLiveLatency(null);
+  }, []);
+
+  const resetRecording = useCallback(async () => {
+    teardownLiveInput();
     if (sourceNodeRef.current) {
         sourceNodeRef.current.stop();
         sourceNodeRef.current.disconnect();
         sourceNodeRef.current = null;
     }
-    if (recordingState === 'playing') {
+    if (recordingState === 'playing' || recordingState === 'live') {
       if(contextRef.current && contextRef.current.state === 'running') {
          await contextRef.current.suspend();
       }
     }
-    recordedBufferRef.current = null;
+    setModulator(null);
     setIsSampleLoaded(false);
+    setModulatorFileName(null);
     setRecordingState('idle');
     setMicError(null);
-  }, [recordingState]);
+    setFileError(null);
+    setLiveWarning(null);
+  }, [recordingState, teardownLiveInput]);
 
 
   const startRecording = useCallback(async () => {
@@ -324,29 +765,64 @@ export const useVocoderAudio = (params: VocoderParams) => {
         recorder.ondataavailable = (e) => chunks.push(e.data);
         recorder.onstop = async () => {
             stream.getTracks().forEach(track => track.stop());
-            const blob = new Blob(chunks, { type: 'audio/ogg; codecs=opus' });
-            const arrayBuffer = await blob.arrayBuffer();
-            recordedBufferRef.current = await context.decodeAudioData(arrayBuffer);
+            let decoded: AudioBuffer;
+            try {
+                const blob = new Blob(chunks, { type: 'audio/ogg; codecs=opus' });
+                decoded = await context.decodeAudioData(await blob.arrayBuffer());
+            } catch (error) {
+                console.error("Failed to decode the recording:", error);
+                setMicError('The recording could not be decoded, it may have been too short.');
+                setRecordingState('idle');
+                return;
+            }
+            setModulator(decoded);
             setRecordingState('recorded');
+            onCaptureRef.current?.(decoded, `Recording ${new Date().toLocaleTimeString()}`, 'recording');
         };
 
+        if (isCountInOn) {
+            // One bar of clicks, with the recording starting on the next downbeat.
+            const countIn = new AbortController();
+            countInAbortRef.current = countIn;
+            setIsCountingIn(true);
+            const beat = 60 / settings.modulation.tempo;
+            const start = context.currentTime + COUNT_IN_LEAD_SECONDS;
+            const clicks = Array.from({ length: BEATS_PER_BAR }, (_, i) => playClick(context, start + i * beat, i === 0));
+            const downbeat = start + BEATS_PER_BAR * beat;
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, (downbeat - context.currentTime) * 1000);
+                countIn.signal.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    resolve();
+                });
+            });
+            countInAbortRef.current = null;
+            setIsCountingIn(false);
+            if (countIn.signal.aborted) {
+                clicks.forEach(click => click.stop());
+                stream.getTracks().forEach(track => track.stop());
+                micSourceNode.disconnect();
+                micSourceNodeRef.current = null;
+                mediaRecorderRef.current = null;
+                return;
+            }
+            recordingStartRef.current = downbeat;
+        } else {
+            recordingStartRef.current = context.currentTime;
+        }
         recorder.start();
         setRecordingState('recording');
         setIsSampleLoaded(false);
     } catch(err) {
         console.error("Microphone access denied or error:", err);
-        if (err instanceof DOMException && (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError')) {
-            setMicError('Microphone access was denied.');
-        } else if (err instanceof DOMException && err.name === 'NotFoundError') {
-            setMicError('No microphone was found. Please ensure a microphone is connected and enabled.');
-        } else {
-            setMicError('An unknown error occurred while trying to access the microphone.');
-        }
+        setMicError(describeMicError(err));
         setRecordingState('idle');
     }
-  }, [setupAudioContext, resetRecording]);
+  }, [setupAudioContext, resetRecording, setModulator, isCountInOn, settings.modulation.tempo]);
 
   const stopRecording = useCallback(() => {
+    // Stopping during the count-in cancels the recording before it starts.
+    countInAbortRef.current?.abort();
     if (mediaRecorderRef.current && recordingState === 'recording') {
         mediaRecorderRef.current.stop();
         if (micSourceNodeRef.current) {
@@ -356,6 +832,68 @@ export const useVocoderAudio = (params: VocoderParams) => {
     }
   }, [recordingState]);
 
+  const startLive = useCallback(async () => {
+    const { context, analyser } = await setupAudioContext();
+    if (!context || !analyser) return;
+    if (recordingState === 'recording' || recordingState === 'live') return;
+
+    if (sourceNodeRef.current) {
+        sourceNodeRef.current.stop();
+        sourceNodeRef.current.disconnect();
+        sourceNodeRef.current = null;
+    }
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+    setMicError(null);
+    setLiveWarning(null);
+
+    try {
+        // Browser voice processing smears the modulator's spectrum, so ask for the raw signal.
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+        });
+        liveStreamRef.current = stream;
+
+        const micSourceNode = context.createMediaStreamSource(stream);
+        const inputGainNode = context.createGain();
+        inputGainNode.gain.value = inputGain;
+        micSourceNode.connect(inputGainNode).connect(getVocoderNode(context, analyser));
+        micSourceNodeRef.current = micSourceNode;
+        inputGainNodeRef.current = inputGainNode;
+
+        setLiveLatency(measureLatency(context));
+        setRecordingState('live');
+    } catch(err) {
+        console.error("Microphone access denied or error:", err);
+        teardownLiveInput();
+        setMicError(describeMicError(err));
+    }
+  }, [setupAudioContext, recordingState, inputGain, getVocoderNode, teardownLiveInput]);
+
+  const stopLive = useCallback(() => {
+    if (recordingState !== 'live') return;
+    teardownLiveInput();
+    setRecordingState(recordedBufferRef.current ? 'recorded' : 'idle');
+  }, [recordingState, teardownLiveInput]);
+
+  const sendMidi = useCallback((event: MidiEvent) => {
+    vocoderNodeRef.current?.port.postMessage({ type: 'MIDI', event });
+  }, []);
+
+  const toggleMonitoring = useCallback(() => {
+    setLiveWarning(null);
+    setIsMonitoring(prev => !prev);
+  }, []);
+
+  const toggleMetronome = useCallback(() => {
+    setIsMetronomeOn(prev => !prev);
+  }, []);
+
+  const toggleCountIn = useCallback(() => {
+    setIsCountInOn(prev => !prev);
+  }, []);
+
   const togglePlayback = useCallback(async () => {
     const { context } = await setupAudioContext();
     if (!context || !analyserNode) return;
@@ -372,26 +910,10 @@ export const useVocoderAudio = (params: VocoderParams) => {
             await context.resume();
         }
 
-        if (sourceNodeRef.current) {
-          sourceNodeRef.current.disconnect();
-        }
-        if (!vocoderNodeRef.current) {
-            vocoderNodeRef.current = new AudioWorkletNode(context, 'vocoder-processor');
-            vocoderNodeRef.current.connect(analyserNode).connect(context.destination);
-             vocoderNodeRef.current.port.postMessage({ type: 'UPDATE_PARAMS', params });
-        }
-       
-        const sourceNode = context.createBufferSource();
-        sourceNode.buffer = recordedBufferRef.current;
-        sourceNode.loop = true;
-        sourceNode.playbackRate.value = params.speed;
-        sourceNode.connect(vocoderNodeRef.current);
-        sourceNode.start();
-        
-        sourceNodeRef.current = sourceNode;
+        startSource(context, analyserNode, cueRef.current);
         setRecordingState('playing');
     }
-  }, [recordingState, setupAudioContext, analyserNode, params]);
+  }, [recordingState, setupAudioContext, analyserNode, startSource]);
 
   const loadSample = useCallback(async (autoplay = false) => {
     const { context } = await setupAudioContext();
@@ -405,9 +927,11 @@ export const useVocoderAudio = (params: VocoderParams) => {
       }
       const response = await fetch(`data:audio/wav;base64,${SAMPLE_AUDIO_BASE64}`);
       const arrayBuffer = await response.arrayBuffer();
-      recordedBufferRef.current = await context.decodeAudioData(arrayBuffer);
+      const decoded = await context.decodeAudioData(arrayBuffer);
+      setModulator(decoded);
       setRecordingState('recorded');
       setIsSampleLoaded(true);
+      onCaptureRef.current?.(decoded, 'Sample', 'sample');
 
       if (autoplay) {
         await togglePlayback();
@@ -418,52 +942,348 @@ export const useVocoderAudio = (params: VocoderParams) => {
       setRecordingState('idle');
       setIsSampleLoaded(false);
     }
-  }, [setupAudioContext, resetRecording, togglePlayback]);
+  }, [setupAudioContext, resetRecording, togglePlayback, setModulator]);
   
-  const renderAndDownload = useCallback(async () => {
-    if (!recordedBufferRef.current) {
+  const loadFile = useCallback(async (file: File) => {
+    const { context } = await setupAudioContext();
+    if (!context) return;
+    if (recordingState === 'recording' || recordingState === 'live') return;
+
+    let prepared: AudioBuffer;
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const decoded = await context.decodeAudioData(arrayBuffer);
+      prepared = await prepareModulatorBuffer(decoded, context.sampleRate);
+    } catch (error) {
+      console.error("Failed to decode modulator file:", error);
+      // Keep whatever was loaded before, only report the failure.
+      setFileError(describeDecodeError(file, error));
+      return;
+    }
+
+    await resetRecording();
+    setModulator(prepared);
+    setModulatorFileName(file.name);
+    setRecordingState('recorded');
+    onCaptureRef.current?.(prepared, file.name.replace(/\.[^.]+$/, ''), 'file');
+  }, [setupAudioContext, recordingState, resetRecording, setModulator]);
+
+  /** Makes a stored take the modulator, stopping playback. Ignored while the mic is in use. */
+  const loadTake = useCallback(async (take: Take) => {
+    if (recordingState === 'recording' || recordingState === 'live') return;
+    await resetRecording();
+    setModulator(take.buffer);
+    setModulatorFileName(take.name);
+    setIsSampleLoaded(take.source === 'sample');
+    setRecordingState('recorded');
+  }, [recordingState, resetRecording, setModulator]);
+
+  const stopAudition = useCallback(() => {
+    const source = auditionSourceRef.current;
+    if (!source) return;
+    source.onended = null;
+    source.stop();
+    source.disconnect();
+    auditionSourceRef.current = null;
+    setAuditionBuffer(null);
+  }, []);
+
+  /**
+   * Plays a clip dry, straight to the speakers past the vocoder, or stops it
+   * if it is already playing. Only one clip is auditioned at a time.
+   */
+  const toggleAudition = useCallback(async (buffer: AudioBuffer) => {
+    const isSame = auditionSourceRef.current?.buffer === buffer;
+    stopAudition();
+    if (isSame) return;
+    const { context } = await setupAudioContext();
+    if (!context) return;
+    if (context.state === 'suspended') {
+        await context.resume();
+    }
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = stopAudition;
+    source.start();
+    auditionSourceRef.current = source;
+    setAuditionBuffer(buffer);
+  }, [setupAudioContext, stopAudition]);
+
+  /** Moves the playhead, or the cue point while stopped, clamped to the loop region. */
+  const seek = useCallback((time: number) => {
+    const region = loopRegionRef.current;
+    if (!region) return;
+    const offset = Math.max(region.start, Math.min(region.end - MIN_LOOP_SECONDS, time));
+    cueRef.current = offset;
+    if (sourceNodeRef.current && contextRef.current && analyserNode) {
+        startSource(contextRef.current, analyserNode, offset);
+    }
+  }, [analyserNode, startSource]);
+
+  const setLoopRegion = useCallback((region: LoopRegion) => {
+    const buffer = recordedBufferRef.current;
+    if (!buffer) return;
+    const start = Math.max(0, Math.min(buffer.duration - MIN_LOOP_SECONDS, region.start));
+    const end = Math.max(start + MIN_LOOP_SECONDS, Math.min(buffer.duration, region.end));
+    const position = getPlaybackPosition();
+    const next = { start, end };
+    loopRegionRef.current = next;
+    setLoopRegionState(next);
+    if (cueRef.current < start || cueRef.current >= end) {
+        cueRef.current = start;
+    }
+
+    const source = sourceNodeRef.current;
+    const context = contextRef.current;
+    if (!source || !context || !analyserNode) return;
+    if (position < start || position >= end) {
+        // A source playing outside its loop only wraps once it reaches the end, so jump in.
+        startSource(context, analyserNode, start);
+    } else {
+        source.loopStart = start;
+        source.loopEnd = end;
+        playheadAnchorRef.current = { contextTime: context.currentTime, offset: position, rate: params.speed };
+        resetAutomationSchedule();
+    }
+  }, [analyserNode, startSource, getPlaybackPosition, params.speed, resetAutomationSchedule]);
+
+  /**
+   * Puts back a recording and loop region from the undo history, keeping
+   * playback going where possible. Ignored while the mic is in use.
+   * @returns Whether anything was put back.
+   */
+  const restoreModulator = useCallback((buffer: AudioBuffer | null, region: LoopRegion | null) => {
+    if (recordingState === 'recording' || recordingState === 'live') return false;
+    if (buffer === recordedBufferRef.current && region === loopRegionRef.current) return false;
+    const position = getPlaybackPosition();
+    recordedBufferRef.current = buffer;
+    setModulatorBuffer(buffer);
+    loopRegionRef.current = region;
+    setLoopRegionState(region);
+
+    if (!buffer || !region) {
+        if (sourceNodeRef.current) {
+            sourceNodeRef.current.stop();
+            sourceNodeRef.current.disconnect();
+            sourceNodeRef.current = null;
+        }
+        cueRef.current = 0;
+        setRecordingState('idle');
+        return true;
+    }
+    const clamp = (time: number) => Math.max(region.start, Math.min(region.end - MIN_LOOP_SECONDS, time));
+    cueRef.current = clamp(cueRef.current);
+    if (sourceNodeRef.current && contextRef.current && analyserNode) {
+        startSource(contextRef.current, analyserNode, clamp(position));
+    } else if (recordingState === 'idle') {
+        setRecordingState('recorded');
+    }
+    return true;
+  }, [recordingState, analyserNode, startSource, getPlaybackPosition]);
+
+  /**
+   * Applies a waveform edit to the recording and its loop region.
+   * @returns The edited recording, or null if there was nothing to edit.
+   */
+  const applyEdit = useCallback((edit: WaveformEdit) => {
+    const buffer = recordedBufferRef.current;
+    const region = loopRegionRef.current;
+    if (!buffer || !region) return null;
+    let position = getPlaybackPosition();
+    const edited = applyBufferEdit(buffer, edit, region, NORMALIZE_PEAK_DB);
+    recordedBufferRef.current = edited;
+    setModulatorBuffer(edited);
+    if (edit === 'trim') {
+        const whole = { start: 0, end: edited.duration };
+        loopRegionRef.current = whole;
+        setLoopRegionState(whole);
+        position = Math.max(0, position - region.start);
+        cueRef.current = Math.max(0, cueRef.current - region.start);
+        // Keep the lanes lined up with the audio that is left.
+        const shifted = { ...automationRef.current };
+        automatableParams.forEach(param => {
+          shifted[param] = shifted[param]
+            .filter(point => point.time >= region.start && point.time < region.end)
+            .map(point => ({ time: point.time - region.start, value: point.value }));
+        });
+        setAutomation(shifted);
+    }
+
+    // Source nodes keep playing the buffer they started with, so swap in the edit.
+    if (sourceNodeRef.current && contextRef.current && analyserNode) {
+        const current = loopRegionRef.current!;
+        startSource(contextRef.current, analyserNode, Math.max(current.start, Math.min(current.end - MIN_LOOP_SECONDS, position)));
+    }
+    return edited;
+  }, [analyserNode, startSource, getPlaybackPosition, setAutomation]);
+
+  /**
+   * Reports a slider move on an automatable parameter. The slider overrides
+   * its lane while it moves, and while playing and armed the move is
+   * recorded, replacing what the lane held over the stretch it covers.
+   */
+  const automateParam = useCallback((param: AutomatableParam, value: number) => {
+    const previous = automationTouchRef.current[param];
+    const wasTouched = isAutomationTouched(param);
+    const position = getPlaybackPosition();
+    automationTouchRef.current[param] = { time: Date.now(), position };
+    if (!isAutomationArmedRef.current || !sourceNodeRef.current) return;
+    // A pass ends when the slider rests or the playhead wraps around the loop.
+    const overwriteFrom = wasTouched && previous && previous.position <= position ? previous.position : null;
+    const lanes = automationRef.current;
+    setAutomation({ ...lanes, [param]: writeAutomationPoint(lanes[param], { time: position, value }, overwriteFrom) });
+  }, [getPlaybackPosition, isAutomationTouched, setAutomation]);
+
+  const clearAutomation = useCallback((param?: AutomatableParam) => {
+    setAutomation(param ? { ...automationRef.current, [param]: [] } : emptyAutomation);
+    resetAutomationSchedule();
+  }, [setAutomation, resetAutomationSchedule]);
+
+  const setAutomationArmed = useCallback((armed: boolean) => {
+    isAutomationArmedRef.current = armed;
+    setIsAutomationArmedState(armed);
+  }, []);
+
+  const setAutomationEnabled = useCallback((enabled: boolean) => {
+    isAutomationEnabledRef.current = enabled;
+    setIsAutomationEnabledState(enabled);
+  }, []);
+
+  const dismissFileError = useCallback(() => {
+    setFileError(null);
+  }, []);
+
+  const cancelRender = useCallback(() => {
+    renderAbortRef.current?.abort();
+  }, []);
+
+  /**
+   * Renders the recording offline through the current patch and downloads it.
+   * @param renderSettings The render and export options.
+   * @param confirmClipping Asked, with the peak in dBFS, whether to go on when
+   * loudness normalisation pushed the peak over full scale in an integer or
+   * compressed format. Without it such renders go ahead.
+   * @param take A take to render instead of the current recording. Unless it
+   * is the current recording it renders whole and without automation, which
+   * belongs to the current recording. Its name fills the {name} token.
+   * @returns Whether a file was downloaded.
+   */
+  const renderAndDownload = useCallback(async (renderSettings: RenderSettings, confirmClipping?: (peakDb: number) => Promise<boolean>, take?: Take) => {
+    const recordedBuffer = take?.buffer ?? recordedBufferRef.current;
+    if (!recordedBuffer) {
         console.error("No recorded audio available to download.");
-        return;
+        return false;
     }
+    const isCurrent = recordedBuffer === recordedBufferRef.current;
     
-    await setupAudioContext();
+    const { context } = await setupAudioContext();
     
-    if (!workletUrlRef.current) {
+    if (!context) {
         console.error("Worklet is not ready for offline rendering.");
-        return;
+        return false;
     }
 
-    const recordedBuffer = recordedBufferRef.current;
-    // Calculate the output length based on the playback speed
-    const outputLength = Math.floor(recordedBuffer.length / params.speed);
+    const sampleRate = renderSettings.sampleRate ?? recordedBuffer.sampleRate;
+    const region = (isCurrent && loopRegionRef.current) || { start: 0, end: recordedBuffer.duration };
+    // Playback speed stretches every loop, the tail lets envelopes and carriers ring out.
+    const sourceSeconds = (region.end - region.start) * renderSettings.loopCount;
+    const outputSeconds = sourceSeconds / params.speed + renderSettings.tailSeconds;
+    const outputLength = Math.ceil(outputSeconds * sampleRate);
 
     const offlineContext = new OfflineAudioContext(
-        recordedBuffer.numberOfChannels,
+        renderSettings.channels,
         outputLength,
-        recordedBuffer.sampleRate
+        sampleRate
     );
 
-    await offlineContext.audioWorklet.addModule(workletUrlRef.current);
+    await offlineContext.audioWorklet.addModule(vocoderWorkletUrl);
 
     const sourceNode = offlineContext.createBufferSource();
     sourceNode.buffer = recordedBuffer;
+    sourceNode.loop = renderSettings.loopCount > 1;
+    sourceNode.loopStart = region.start;
+    sourceNode.loopEnd = region.end;
     sourceNode.playbackRate.value = params.speed;
 
-    const vocoderNode = new AudioWorkletNode(offlineContext, 'vocoder-processor');
-    vocoderNode.port.postMessage({ type: 'UPDATE_PARAMS', params });
+    const vocoderNode = createVocoderNode(offlineContext, params, settings);
+    if (isAutomationEnabledRef.current && isCurrent) {
+        const renderSeconds = sourceSeconds / params.speed;
+        automatableParams.forEach(param => {
+            const lane = automationRef.current[param];
+            if (!lane.length) return;
+            const audioParam = getAudioParam(vocoderNode, param);
+            audioParam.setValueAtTime(automationValueAt(lane, region.start, params[param]), 0);
+            forEachAutomationPoint(lane, region, region.start, params.speed, 0, renderSeconds, (value, time) => {
+                audioParam.setValueAtTime(value, time);
+            });
+        });
+    }
+
+    if (carrierSourceRef.current === 'file' && carrierBufferRef.current) {
+        const carrierNode = offlineContext.createBufferSource();
+        carrierNode.buffer = carrierBufferRef.current;
+        carrierNode.loop = true;
+        carrierNode.connect(vocoderNode, 0, 1);
+        carrierNode.start(0);
+    } else if (carrierSourceRef.current === 'device') {
+        console.warn("Live carrier devices cannot be rendered offline, using the internal synth instead.");
+    }
 
     sourceNode.connect(vocoderNode);
-    vocoderNode.connect(offlineContext.destination);
+    // The rack is rebuilt from the settings, so the export matches what is heard.
+    const effectChain = createEffectChain(offlineContext, settings.effects, settings.modulation.tempo);
+    const masterNode = createMasterNode(offlineContext, settings);
+    vocoderNode.connect(effectChain.input);
+    effectChain.output.connect(masterNode).connect(offlineContext.destination);
 
-    sourceNode.start(0);
-    const renderedBuffer = await offlineContext.startRendering();
+    sourceNode.start(0, region.start, sourceSeconds);
 
-    const wavBlob = audioBufferToWav(renderedBuffer);
-    const url = URL.createObjectURL(wavBlob);
+    const abortController = new AbortController();
+    renderAbortRef.current = abortController;
+    setRenderProgress(0);
+    let renderedBuffer: AudioBuffer | null;
+    try {
+        renderedBuffer = await renderInChunks(offlineContext, setRenderProgress, abortController.signal);
+    } finally {
+        renderAbortRef.current = null;
+        setRenderProgress(null);
+    }
+    if (!renderedBuffer) {
+        return false;
+    }
+
+    if (renderSettings.loudnessTarget !== null) {
+        const measurement = normalizeLoudness(renderedBuffer, renderSettings.loudnessTarget);
+        // Only 32 bit float WAV keeps samples over full scale, everything else clips them.
+        const keepsOvers = renderSettings.export.format === 'wav' && renderSettings.export.bitDepth === 32;
+        if (measurement && measurement.peakDb > 0 && !keepsOvers && confirmClipping && !(await confirmClipping(measurement.peakDb))) {
+            return false;
+        }
+    } else if (renderSettings.normalize) {
+        normalizeBuffer(renderedBuffer, NORMALIZE_PEAK_DB);
+    }
+
+    const date = new Date();
+    const filename = expandFilenameTemplate(
+        renderSettings.export.filenameTemplate,
+        { pitch: params.pitch, formant: params.size, robot: params.carrierNoise, speed: params.speed },
+        renderSettings.export,
+        date,
+        take?.name
+    );
+    // The patch goes into the comment so a render can be traced back to its settings.
+    const blob = await encodeAudio(renderedBuffer, renderSettings.export, {
+        title: filename.replace(/\.[^.]+$/, ''),
+        software: 'Lo-Modics Field Vocoder',
+        comment: JSON.stringify({ params, settings }),
+        date,
+    });
+    const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.style.display = 'none';
     a.href = url;
-    a.download = 'lo-modics-output.wav';
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     
@@ -472,16 +1292,29 @@ export const useVocoderAudio = (params: VocoderParams) => {
         a.remove();
     }, 100);
 
-  }, [params, setupAudioContext]);
+    return true;
+  }, [params, settings, setupAudioContext]);
 
 
   useEffect(() => {
     return () => {
       // Cleanup on unmount
-      if (workletUrlRef.current) URL.revokeObjectURL(workletUrlRef.current);
+      liveStreamRef.current?.getTracks().forEach(track => track.stop());
+      carrierStreamRef.current?.getTracks().forEach(track => track.stop());
       if (contextRef.current) contextRef.current.close();
     };
   }, []);
 
-  return { recordingState, startRecording, stopRecording, togglePlayback, analyserNode, resetRecording, renderAndDownload, loadSample, isSampleLoaded, micError };
+  return {
+    recordingState, startRecording, stopRecording, togglePlayback, analyserNode, resetRecording, renderAndDownload, loadSample, isSampleLoaded, micError,
+    loadFile, modulatorFileName, fileError, dismissFileError,
+    modulatorBuffer, loopRegion, setLoopRegion, seek, getPlaybackPosition, applyEdit, restoreModulator,
+    startLive, stopLive, inputGain, setInputGain, isMonitoring, toggleMonitoring, liveLatency, liveWarning,
+    carrierSource, setCarrierSource, loadCarrierFile, carrierFileName, carrierDevices, carrierDeviceId, selectCarrierDevice, carrierError,
+    sendMidi, renderProgress, cancelRender,
+    loadTake, toggleAudition, auditionBuffer,
+    automation, automateParam, clearAutomation, isAutomationArmed, setAutomationArmed, isAutomationEnabled, setAutomationEnabled,
+    getMeterReading, resetLoudness,
+    isMetronomeOn, toggleMetronome, isCountInOn, toggleCountIn, isCountingIn,
+  };
 };
\ No newline at end of file
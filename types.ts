@@ -1,4 +1,3 @@
-
 export interface VocoderParams {
   carrierNoise: number;
   size: number;
@@ -6,4 +5,389 @@ export interface VocoderParams {
   pitch: number;
 }
 
-export type RecordingState = 'idle' | 'recording' | 'recorded' | 'playing';
\ No newline at end of file
+/**
+ * How the filter bank's centre frequencies are distributed between its limits.
+ * 'classic' follows the hand-picked centres of the original eight-band bank.
+ */
+export type BandSpacing = 'classic' | 'log' | 'bark' | 'mel' | 'linear';
+
+export interface BankConfig {
+  bandCount: number;
+  spacing: BandSpacing;
+  minFreq: number;
+  maxFreq: number;
+  q: number;
+}
+
+export interface EnvelopeConfig {
+  attackMs: number;
+  releaseMs: number;
+}
+
+export interface BandLevel {
+  /** Band gain in decibels. */
+  gain: number;
+  mute: boolean;
+  solo: boolean;
+}
+
+export type CarrierWaveform = 'saw' | 'square' | 'pulse' | 'triangle' | 'supersaw' | 'noise';
+
+export type ChordType = 'none' | 'octave' | 'fifth' | 'major' | 'minor' | 'sus4' | 'maj7' | 'min7';
+
+/**
+ * What sets the carrier synth's pitch: the Pitch slider, notes from a MIDI
+ * keyboard, the pitch detected in the modulator, or the step sequencer.
+ */
+export type PitchMode = 'fixed' | 'midi' | 'track' | 'sequence';
+
+export type ScaleType = 'off' | 'chromatic' | 'major' | 'minor' | 'pentatonic' | 'blues';
+
+/** How a tracked pitch is corrected before it drives the carrier. */
+export interface TrackingConfig {
+  scale: ScaleType;
+  /** Pitch class of the scale's root, 0 for C. */
+  root: number;
+  /** Time taken to glide to a newly detected note, in milliseconds. */
+  glideMs: number;
+}
+
+/** Settings of the internal carrier synth. */
+export interface CarrierConfig {
+  waveform: CarrierWaveform;
+  /** Duty cycle of the pulse waveform, between 0 and 1. */
+  pulseWidth: number;
+  /** Number of detuned voices per chord note. */
+  unison: number;
+  /** Spread of the unison voices, in semitones either side of the note. */
+  detune: number;
+  chord: ChordType;
+  pitchMode: PitchMode;
+}
+
+/** Detection of sibilant ("s", "t") frames and how strongly they are restored. */
+export interface SibilanceConfig {
+  enabled: boolean;
+  /** Share of the modulator's energy above 4 kHz that marks a frame as sibilant, 0 to 1. */
+  threshold: number;
+  /** How far sibilant frames switch to noise and how much of the original hiss passes through, 0 to 1. */
+  amount: number;
+}
+
+/**
+ * How the vocoder fills the stereo field. 'alternate' pans odd and even bands
+ * to opposite sides, 'spread' pans bands from low on the left to high on the
+ * right, and 'true' vocodes each modulator channel separately.
+ */
+export type StereoMode = 'mono' | 'alternate' | 'spread' | 'true';
+
+export interface StereoConfig {
+  mode: StereoMode;
+  /** Mid/side width of the output, 0 (mono) to 2; 1 leaves the bands' panning as is. */
+  width: number;
+  /** How far the synth carrier's unison voices are spread across the sides, 0 to 1. */
+  carrierSpread: number;
+}
+
+export type LfoShape = 'sine' | 'triangle' | 'saw' | 'square' | 'random';
+
+/** Note values a tempo-synced LFO cycle can last. 't' marks triplets, 'd' dotted notes. */
+export type LfoDivision = '2/1' | '1/1' | '1/2' | '1/4' | '1/8' | '1/16' | '1/4t' | '1/8t' | '1/4d' | '1/8d';
+
+export interface LfoConfig {
+  shape: LfoShape;
+  /** Free-running rate in Hz, used while not synced. */
+  rateHz: number;
+  /** Lock the cycle to a note value at the modulation tempo instead of `rateHz`. */
+  sync: boolean;
+  division: LfoDivision;
+  /** Offset into the cycle, 0 to 1. */
+  phase: number;
+}
+
+/** Follows the loudness of the modulator as a modulation source, from 0 to 1. */
+export interface ModEnvelopeConfig {
+  attackMs: number;
+  releaseMs: number;
+  /** Boost applied before the output is clipped at 1, in dB, so quiet voices reach full depth. */
+  sensitivityDb: number;
+}
+
+export type ModSource = 'lfo1' | 'lfo2' | 'envelope';
+
+export type ModDestination = 'pitch' | 'size' | 'carrierNoise' | 'q' | 'gain';
+
+/** One connection of the modulation matrix. */
+export interface ModRoute {
+  source: ModSource;
+  destination: ModDestination;
+  /** -1 to 1, as a share of the destination's modulation span. */
+  depth: number;
+}
+
+export interface ModulationConfig {
+  lfo1: LfoConfig;
+  lfo2: LfoConfig;
+  envelope: ModEnvelopeConfig;
+  /** Tempo synced LFOs and the step sequencer follow, in BPM. */
+  tempo: number;
+  routes: ModRoute[];
+}
+
+/**
+ * Playing the modulator faster or slower normally shifts its pitch and
+ * formants with it. Time-stretch shifts them back in the vocoder, so Speed
+ * only changes the tempo.
+ */
+export interface TimeStretchConfig {
+  enabled: boolean;
+  /** Length of the grains the modulator is spliced from, in milliseconds. */
+  grainMs: number;
+}
+
+/** One step of the carrier sequencer. */
+export interface SequencerStep {
+  /** Semitones above the root, snapped to the sequence's scale. */
+  note: number;
+  /** How long the note sounds, as a share of the step, 0 to 1. 0 is a rest. */
+  gate: number;
+  /** Slides into this step's note from the one before without retriggering it. */
+  glide: boolean;
+}
+
+/** The order steps play in. Random picks any step each time, repeatably for a seeded render. */
+export type SequencerDirection = 'forward' | 'reverse' | 'pingpong' | 'random';
+
+/** The step sequencer that plays the carrier in 'sequence' pitch mode, at the modulation tempo. */
+export interface SequencerConfig {
+  /** Steps that play, 8 to 32. Later steps are kept so lengthening brings them back. */
+  length: number;
+  /** Always the maximum number of steps. */
+  steps: SequencerStep[];
+  /** Note value each step lasts. */
+  division: LfoDivision;
+  /** Lengthens every even step and shortens every odd one by this share, 0 to 0.5. */
+  swing: number;
+  scale: ScaleType;
+  /** Pitch class of the root, 0 for C. Step 0 plays the root in octave 2, moved by the Pitch slider. */
+  root: number;
+  direction: SequencerDirection;
+  /** Time taken by a glide step to reach its note, in milliseconds. */
+  glideMs: number;
+}
+
+export type EffectType = 'reverb' | 'delay' | 'chorus' | 'bitcrush' | 'distortion' | 'compressor';
+
+interface EffectCommon {
+  /** Identifies the effect across reorders, so its nodes can be kept. */
+  id: string;
+  bypass: boolean;
+  /** Wet/dry balance, 0 (dry) to 1 (wet). */
+  mix: number;
+}
+
+/** Convolution reverb with a generated, exponentially decaying impulse response. */
+export interface ReverbEffect extends EffectCommon {
+  type: 'reverb';
+  decaySeconds: number;
+  preDelayMs: number;
+  /** How much faster the highs decay than the lows, 0 to 1. */
+  damping: number;
+}
+
+export interface DelayEffect extends EffectCommon {
+  type: 'delay';
+  timeMs: number;
+  /** Take the time from a note value at the modulation tempo instead of `timeMs`. */
+  sync: boolean;
+  division: LfoDivision;
+  feedback: number;
+  /** Cutoff of the low-pass in the feedback loop, in Hz. */
+  toneHz: number;
+}
+
+export interface ChorusEffect extends EffectCommon {
+  type: 'chorus';
+  rateHz: number;
+  depthMs: number;
+  delayMs: number;
+}
+
+export interface BitcrushEffect extends EffectCommon {
+  type: 'bitcrush';
+  bits: number;
+  /** Each sample is held for this many frames. */
+  downsample: number;
+}
+
+/** Soft clipping followed by a low-pass to tame the added harmonics. */
+export interface DistortionEffect extends EffectCommon {
+  type: 'distortion';
+  driveDb: number;
+  toneHz: number;
+}
+
+/** A compressor, or a limiter at high ratios. */
+export interface CompressorEffect extends EffectCommon {
+  type: 'compressor';
+  thresholdDb: number;
+  ratio: number;
+  attackMs: number;
+  releaseMs: number;
+  makeupDb: number;
+}
+
+export type EffectConfig = ReverbEffect | DelayEffect | ChorusEffect | BitcrushEffect | DistortionEffect | CompressorEffect;
+
+/** The output stage after the effects rack. */
+export interface MasterConfig {
+  gainDb: number;
+  /** Lookahead brickwall limiter at the very end of the chain. */
+  limiter: boolean;
+  ceilingDb: number;
+  /** Continuously matches the vocoded level to the modulator's level. */
+  autoGain: boolean;
+}
+
+/** Levels reported by the output meter about ten times a second. */
+export interface MeterReading {
+  /** Sample peak of each side since the previous reading, in dBFS. */
+  peakDb: [number, number];
+  /** K-weighted loudness over the last 400 ms, in LUFS. */
+  momentaryLufs: number;
+  /** K-weighted loudness over the last 3 s, in LUFS. */
+  shortTermLufs: number;
+  /** Gated loudness since the meter was last reset, in LUFS. */
+  integratedLufs: number;
+  /** Deepest limiter gain reduction since the previous reading, in dB. */
+  gainReductionDb: number;
+}
+
+/** Everything besides the main voice parameters that shapes the worklet's sound. */
+export interface VocoderSettings {
+  bank: BankConfig;
+  envelope: EnvelopeConfig;
+  bandLevels: BandLevel[];
+  carrier: CarrierConfig;
+  tracking: TrackingConfig;
+  sibilance: SibilanceConfig;
+  stereo: StereoConfig;
+  modulation: ModulationConfig;
+  sequencer: SequencerConfig;
+  timeStretch: TimeStretchConfig;
+  /** Effects the vocoder output passes through, in order. */
+  effects: EffectConfig[];
+  master: MasterConfig;
+}
+
+/** Voice parameters that are AudioParams on the vocoder node and can be automated. */
+export type AutomatableParam = 'carrierNoise' | 'size' | 'pitch';
+
+export interface AutomationPoint {
+  /** Position in the recording, in seconds, so lanes follow trims of the loop region. */
+  time: number;
+  value: number;
+}
+
+/** Recorded parameter moves, each lane sorted by time. */
+export type AutomationLanes = Record<AutomatableParam, AutomationPoint[]>;
+
+/** How the dice picks new parameter values. */
+export type RandomizerMode = 'roll' | 'mutate';
+
+/** What the randomised pitch is rounded to. 'scale' uses the tracking scale and root. */
+export type PitchSnap = 'off' | 'semitone' | 'scale';
+
+export interface RandomizerSettings {
+  mode: RandomizerMode;
+  /** How far mutate moves each parameter, as a fraction of its range. */
+  amount: number;
+  locks: Partial<Record<keyof VocoderParams, boolean>>;
+  pitchSnap: PitchSnap;
+  /** Seed for the next roll; null picks a fresh one each time. */
+  seed: number | null;
+}
+
+/** Everything that defines a sound, as saved in presets, patch files and share links. */
+export interface Patch {
+  params: VocoderParams;
+  settings: VocoderSettings;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  patch: Patch;
+  /** Factory presets ship with the app and cannot be overwritten or deleted. */
+  factory: boolean;
+}
+
+/** How a take got into the session. */
+export type TakeSource = 'recording' | 'file' | 'sample';
+
+/** A modulator clip kept in the session's take list. */
+export interface Take {
+  id: string;
+  name: string;
+  source: TakeSource;
+  /** When the take was captured, in milliseconds since the epoch. */
+  createdAt: number;
+  buffer: AudioBuffer;
+  /** Interleaved min/max pairs for the list's thumbnail waveform. */
+  peaks: Float32Array;
+}
+
+export type RecordingState = 'idle' | 'recording' | 'recorded' | 'playing' | 'live';
+
+/** Where the vocoder's carrier signal comes from. */
+export type CarrierSource = 'synth' | 'file' | 'device';
+
+export interface LiveLatency {
+  /** Latency of the audio context's processing, in milliseconds. */
+  base: number;
+  /** Latency between the context's output and the speakers, in milliseconds. */
+  output: number;
+  /** Round trip estimate including the worklet's render quantum, in milliseconds. */
+  total: number;
+}
+
+/** Part of the modulator recording that plays and renders, in seconds. */
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+/** Destructive operations the waveform editor can apply to the recording. */
+export type WaveformEdit = 'trim' | 'normalize' | 'reverse' | 'fadeIn' | 'fadeOut';
+
+
+export type ExportFormat = 'wav' | 'aiff' | 'flac' | 'webm' | 'ogg';
+
+/** How a rendered buffer is encoded and named. */
+export interface ExportSettings {
+  format: ExportFormat;
+  /** 16 or 24 bit integer, or 32 bit float (WAV only). Ignored for the compressed formats. */
+  bitDepth: 16 | 24 | 32;
+  /** Add TPDF dither before quantising to integers. */
+  dither: boolean;
+  /** Write the patch and render details into the file's metadata. */
+  embedMetadata: boolean;
+  /** Filename without extension; {name}, {date}, {time}, {pitch}, {formant}, {robot}, {speed} and {format} are expanded. */
+  filenameTemplate: string;
+}
+
+/** Options for an offline render of the current recording. */
+export interface RenderSettings {
+  /** Output sample rate in Hz, or null to keep the recording's rate. */
+  sampleRate: number | null;
+  channels: 1 | 2;
+  /** Extra time rendered after the last loop so envelopes can ring out, in seconds. */
+  tailSeconds: number;
+  /** Scale the result so its peak sits just below full scale. */
+  normalize: boolean;
+  /** Integrated loudness to scale the result to, in LUFS, or null to leave it. Takes the place of `normalize`. */
+  loudnessTarget: number | null;
+  /** How many times the recording is played through. */
+  loopCount: number;
+  export: ExportSettings;
+}
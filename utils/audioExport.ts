@@ -0,0 +1,644 @@
+import type { ExportFormat, ExportSettings } from '../types';
+import type { Rng } from './randomizer';
+
+/** Descriptive tags written into exported files. */
+export interface ExportMetadata {
+  title: string;
+  software: string;
+  /** Free text, used for the JSON of the patch the file was rendered with. */
+  comment: string;
+  /** Left out of repeatable renders, which must come out byte for byte the same. */
+  date?: Date;
+}
+
+export const formatExtensions: Record<ExportFormat, string> = {
+  wav: 'wav',
+  aiff: 'aiff',
+  flac: 'flac',
+  webm: 'webm',
+  ogg: 'ogg',
+};
+
+const formatMimeTypes: Record<ExportFormat, string> = {
+  wav: 'audio/wav',
+  aiff: 'audio/aiff',
+  flac: 'audio/flac',
+  webm: 'audio/webm;codecs=opus',
+  ogg: 'audio/ogg;codecs=opus',
+};
+
+/**
+ * Checks whether a format can be produced in this browser. The lossless
+ * formats are encoded here; the compressed ones need MediaRecorder support.
+ * @param format The export format.
+ * @returns True if the format can be exported.
+ */
+export const isFormatSupported = (format: ExportFormat): boolean => {
+  if (format !== 'webm' && format !== 'ogg') return true;
+  return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(formatMimeTypes[format]);
+};
+
+/**
+ * Quantises a channel to signed integers, clamping to full scale.
+ * @param data The float samples.
+ * @param bitDepth The target bit depth.
+ * @param dither Add triangular (TPDF) dither of +-1 LSB before rounding.
+ * @param random Source of the dither noise.
+ * @returns The integer samples.
+ */
+const quantize = (data: Float32Array, bitDepth: number, dither: boolean, random: Rng = Math.random): Int32Array => {
+  const max = 2 ** (bitDepth - 1);
+  const out = new Int32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    let sample = (data[i] || 0) * max;
+    if (dither) {
+      sample += random() + random() - 1;
+    }
+    out[i] = Math.max(-max, Math.min(max - 1, Math.round(sample)));
+  }
+  return out;
+};
+
+const getChannels = (buffer: AudioBuffer) => {
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    channels.push(buffer.getChannelData(i));
+  }
+  return channels;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+const formatDate = (date: Date) => `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+const formatTime = (date: Date, separator = ':') => [date.getHours(), date.getMinutes(), date.getSeconds()].map(pad2).join(separator);
+
+const textEncoder = new TextEncoder();
+
+/** Growable little/big endian byte writer used by the container formats. */
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  private view = new DataView(this.bytes.buffer);
+  pos = 0;
+
+  private reserve(size: number) {
+    if (this.pos + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.pos + size) capacity *= 2;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes);
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+
+  uint8(value: number) { this.reserve(1); this.view.setUint8(this.pos, value); this.pos += 1; }
+  uint16(value: number, littleEndian: boolean) { this.reserve(2); this.view.setUint16(this.pos, value, littleEndian); this.pos += 2; }
+  uint32(value: number, littleEndian: boolean) { this.reserve(4); this.view.setUint32(this.pos, value, littleEndian); this.pos += 4; }
+  int16(value: number, littleEndian: boolean) { this.reserve(2); this.view.setInt16(this.pos, value, littleEndian); this.pos += 2; }
+  float32(value: number, littleEndian: boolean) { this.reserve(4); this.view.setFloat32(this.pos, value, littleEndian); this.pos += 4; }
+  int24(value: number, littleEndian: boolean) {
+    const v = value & 0xffffff;
+    if (littleEndian) {
+      this.uint8(v & 0xff); this.uint8((v >> 8) & 0xff); this.uint8((v >> 16) & 0xff);
+    } else {
+      this.uint8((v >> 16) & 0xff); this.uint8((v >> 8) & 0xff); this.uint8(v & 0xff);
+    }
+  }
+  ascii(text: string) { for (let i = 0; i < text.length; i++) this.uint8(text.charCodeAt(i) & 0x7f); }
+  bytesOf(data: Uint8Array) { this.reserve(data.length); this.bytes.set(data, this.pos); this.pos += data.length; }
+  /** Writes text into a fixed size, zero padded field. */
+  fixedText(text: string, size: number) {
+    const encoded = textEncoder.encode(text).subarray(0, size);
+    this.bytesOf(encoded);
+    for (let i = encoded.length; i < size; i++) this.uint8(0);
+  }
+  setUint32At(offset: number, value: number, littleEndian: boolean) { this.view.setUint32(offset, value, littleEndian); }
+  result() { return this.bytes.slice(0, this.pos); }
+}
+
+/**
+ * Writes a RIFF LIST/INFO chunk holding the title, software, date and comment.
+ */
+const writeInfoChunk = (w: ByteWriter, metadata: ExportMetadata) => {
+  const entries: [string, string][] = [
+    ['INAM', metadata.title],
+    ['ISFT', metadata.software],
+    ...(metadata.date ? [['ICRD', formatDate(metadata.date)] as [string, string]] : []),
+    ['ICMT', metadata.comment],
+  ];
+  w.ascii('LIST');
+  const sizePos = w.pos;
+  w.uint32(0, true);
+  w.ascii('INFO');
+  for (const [id, text] of entries) {
+    const encoded = textEncoder.encode(text);
+    w.ascii(id);
+    w.uint32(encoded.length + 1, true);
+    w.bytesOf(encoded);
+    w.uint8(0);
+    if ((encoded.length + 1) % 2) w.uint8(0);
+  }
+  w.setUint32At(sizePos, w.pos - sizePos - 4, true);
+};
+
+/**
+ * Writes a Broadcast Wave (BWF) bext chunk, version 1.
+ */
+const writeBextChunk = (w: ByteWriter, metadata: ExportMetadata, codingHistory: string) => {
+  const history = textEncoder.encode(codingHistory);
+  const size = 602 + history.length;
+  w.ascii('bext');
+  w.uint32(size, true);
+  w.fixedText(metadata.title, 256); // Description
+  w.fixedText(metadata.software, 32); // Originator
+  w.fixedText('', 32); // OriginatorReference
+  w.fixedText(metadata.date ? formatDate(metadata.date) : '', 10);
+  w.fixedText(metadata.date ? formatTime(metadata.date) : '', 8);
+  w.uint32(0, true); // TimeReference, low
+  w.uint32(0, true); // TimeReference, high
+  w.uint16(1, true); // Version
+  w.fixedText('', 64); // UMID
+  w.fixedText('', 190); // Reserved
+  w.bytesOf(history);
+  if (size % 2) w.uint8(0);
+};
+
+/**
+ * Converts an AudioBuffer to a WAV file Blob.
+ * @param buffer The AudioBuffer to convert.
+ * @param settings Bit depth and dither. 32 bits writes IEEE float samples.
+ * @param metadata Tags written to INFO and bext chunks, if given.
+ * @param random Source of the dither noise; a seeded one makes the file repeatable.
+ * @returns A Blob representing the WAV file.
+ */
+export function audioBufferToWav(buffer: AudioBuffer, settings: Pick<ExportSettings, 'bitDepth' | 'dither'>, metadata?: ExportMetadata, random?: Rng): Blob {
+  const numOfChan = buffer.numberOfChannels;
+  const isFloat = settings.bitDepth === 32;
+  const bytesPerSample = settings.bitDepth / 8;
+  const dataLength = buffer.length * numOfChan * bytesPerSample;
+  const w = new ByteWriter();
+
+  // RIFF header
+  w.ascii('RIFF');
+  w.uint32(0, true); // file length - 8, patched below
+  w.ascii('WAVE');
+
+  // fmt chunk
+  w.ascii('fmt ');
+  w.uint32(16, true);
+  w.uint16(isFloat ? 3 : 1, true); // IEEE float or PCM
+  w.uint16(numOfChan, true);
+  w.uint32(buffer.sampleRate, true);
+  w.uint32(buffer.sampleRate * bytesPerSample * numOfChan, true); // avg. bytes/sec
+  w.uint16(numOfChan * bytesPerSample, true); // block-align
+  w.uint16(settings.bitDepth, true);
+
+  if (isFloat) {
+    // Non-PCM formats need a fact chunk with the frame count.
+    w.ascii('fact');
+    w.uint32(4, true);
+    w.uint32(buffer.length, true);
+  }
+
+  if (metadata) {
+    const codingHistory = `A=${isFloat ? 'PCM_FLOAT' : 'PCM'},F=${buffer.sampleRate},W=${settings.bitDepth},M=${numOfChan === 1 ? 'mono' : 'stereo'},T=${metadata.software}\r\n`;
+    writeBextChunk(w, metadata, codingHistory);
+    writeInfoChunk(w, metadata);
+  }
+
+  // data chunk
+  w.ascii('data');
+  w.uint32(dataLength, true);
+
+  // Write interleaved samples
+  const channels = getChannels(buffer);
+  if (isFloat) {
+    for (let offset = 0; offset < buffer.length; offset++) {
+      for (let i = 0; i < numOfChan; i++) {
+        w.float32(channels[i][offset] || 0, true);
+      }
+    }
+  } else {
+    const ints = channels.map(data => quantize(data, settings.bitDepth, settings.dither, random));
+    for (let offset = 0; offset < buffer.length; offset++) {
+      for (let i = 0; i < numOfChan; i++) {
+        if (settings.bitDepth === 16) w.int16(ints[i][offset], true);
+        else w.int24(ints[i][offset], true);
+      }
+    }
+  }
+  if (dataLength % 2) w.uint8(0);
+
+  w.setUint32At(4, w.pos - 8, true);
+  return new Blob([w.result()], { type: formatMimeTypes.wav });
+}
+
+/**
+ * Writes a number as an 80 bit IEEE 754 extended float, as AIFF stores sample rates.
+ */
+const writeExtended = (w: ByteWriter, value: number) => {
+  let exponent = Math.floor(Math.log2(value));
+  let mantissa = value / 2 ** exponent;
+  exponent += 16383;
+  w.uint16(exponent, false);
+  // 64 bit mantissa with an explicit integer bit.
+  mantissa *= 2 ** 31;
+  const hi = Math.floor(mantissa);
+  const lo = Math.floor((mantissa - hi) * 2 ** 32);
+  w.uint32(hi, false);
+  w.uint32(lo, false);
+};
+
+/**
+ * Converts an AudioBuffer to an AIFF file Blob.
+ * @param buffer The AudioBuffer to convert.
+ * @param settings Bit depth (16 or 24) and dither.
+ * @param metadata Tags written to NAME, AUTH and ANNO chunks, if given.
+ * @returns A Blob representing the AIFF file.
+ */
+export function audioBufferToAiff(buffer: AudioBuffer, settings: Pick<ExportSettings, 'bitDepth' | 'dither'>, metadata?: ExportMetadata): Blob {
+  const numOfChan = buffer.numberOfChannels;
+  const bitDepth = settings.bitDepth === 16 ? 16 : 24;
+  const bytesPerSample = bitDepth / 8;
+  const w = new ByteWriter();
+
+  w.ascii('FORM');
+  w.uint32(0, false); // patched below
+  w.ascii('AIFF');
+
+  w.ascii('COMM');
+  w.uint32(18, false);
+  w.uint16(numOfChan, false);
+  w.uint32(buffer.length, false);
+  w.uint16(bitDepth, false);
+  writeExtended(w, buffer.sampleRate);
+
+  if (metadata) {
+    const textChunks: [string, string][] = [
+      ['NAME', metadata.title],
+      ['AUTH', metadata.software],
+      ['ANNO', metadata.comment],
+    ];
+    for (const [id, text] of textChunks) {
+      const encoded = textEncoder.encode(text);
+      w.ascii(id);
+      w.uint32(encoded.length, false);
+      w.bytesOf(encoded);
+      if (encoded.length % 2) w.uint8(0);
+    }
+  }
+
+  const dataLength = buffer.length * numOfChan * bytesPerSample;
+  w.ascii('SSND');
+  w.uint32(dataLength + 8, false);
+  w.uint32(0, false); // offset
+  w.uint32(0, false); // block size
+
+  const ints = getChannels(buffer).map(data => quantize(data, bitDepth, settings.dither));
+  for (let offset = 0; offset < buffer.length; offset++) {
+    for (let i = 0; i < numOfChan; i++) {
+      if (bitDepth === 16) w.int16(ints[i][offset], false);
+      else w.int24(ints[i][offset], false);
+    }
+  }
+  if (dataLength % 2) w.uint8(0);
+
+  w.setUint32At(4, w.pos - 8, false);
+  return new Blob([w.result()], { type: formatMimeTypes.aiff });
+}
+
+/** MSB-first bit writer for the FLAC bitstream. */
+class BitWriter {
+  private bytes = new Uint8Array(4096);
+  private bitPos = 0;
+
+  get byteLength() { return this.bitPos >> 3; }
+
+  private reserve(bits: number) {
+    const needed = (this.bitPos + bits + 7) >> 3;
+    if (needed <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < needed) capacity *= 2;
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes);
+    this.bytes = bytes;
+  }
+
+  /** Writes the low `count` bits of value, up to 32 bits. */
+  bits(value: number, count: number) {
+    this.reserve(count);
+    for (let i = count - 1; i >= 0; i--) {
+      const bit = i >= 31 ? Math.floor(value / 2 ** i) & 1 : (value >>> i) & 1;
+      if (bit) this.bytes[this.bitPos >> 3] |= 0x80 >> (this.bitPos & 7);
+      this.bitPos++;
+    }
+  }
+
+  signed(value: number, count: number) {
+    this.bits(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  unary(zeros: number) {
+    this.reserve(zeros + 1);
+    this.bitPos += zeros;
+    this.bytes[this.bitPos >> 3] |= 0x80 >> (this.bitPos & 7);
+    this.bitPos++;
+  }
+
+  alignToByte() {
+    this.bitPos = (this.bitPos + 7) & ~7;
+  }
+
+  slice(start: number, end: number) { return this.bytes.subarray(start, end); }
+  result() { return this.bytes.slice(0, this.byteLength); }
+}
+
+const crc8 = (data: Uint8Array) => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array) => {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+};
+
+const FLAC_BLOCK_SIZE = 4096;
+
+/** Sample rates with their own code in the FLAC frame header. */
+const flacSampleRateCodes: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+/**
+ * Picks how a frame header states the sample rate. Frames carry it themselves
+ * so a decoder that starts mid-stream, without STREAMINFO, can still play them.
+ */
+const flacSampleRateHeader = (sampleRate: number): { code: number; extra?: { value: number; bits: number } } => {
+  if (sampleRate in flacSampleRateCodes) return { code: flacSampleRateCodes[sampleRate] };
+  if (sampleRate < 2 ** 16) return { code: 0b1101, extra: { value: sampleRate, bits: 16 } };
+  if (sampleRate % 10 === 0 && sampleRate / 10 < 2 ** 16) return { code: 0b1110, extra: { value: sampleRate / 10, bits: 16 } };
+  return { code: 0b0000 };
+};
+
+/** Residuals of the FLAC fixed polynomial predictors of order 0 to 4. */
+const fixedResiduals = (samples: Int32Array, order: number): Int32Array => {
+  const out = new Int32Array(samples.length - order);
+  for (let n = order; n < samples.length; n++) {
+    const x = samples;
+    let r: number;
+    switch (order) {
+      case 0: r = x[n]; break;
+      case 1: r = x[n] - x[n - 1]; break;
+      case 2: r = x[n] - 2 * x[n - 1] + x[n - 2]; break;
+      case 3: r = x[n] - 3 * x[n - 1] + 3 * x[n - 2] - x[n - 3]; break;
+      default: r = x[n] - 4 * x[n - 1] + 6 * x[n - 2] - 4 * x[n - 3] + x[n - 4]; break;
+    }
+    out[n - order] = r;
+  }
+  return out;
+};
+
+const zigzag = (r: number) => r >= 0 ? 2 * r : -2 * r - 1;
+
+const riceBits = (residuals: Int32Array, k: number) => {
+  const divisor = 2 ** k;
+  let bits = 0;
+  for (let i = 0; i < residuals.length; i++) {
+    bits += Math.floor(zigzag(residuals[i]) / divisor) + 1 + k;
+  }
+  return bits;
+};
+
+/** Finds the Rice parameter that codes the residuals in the fewest bits. */
+const bestRiceParameter = (residuals: Int32Array): { k: number; bits: number } => {
+  let sum = 0;
+  for (let i = 0; i < residuals.length; i++) sum += zigzag(residuals[i]);
+  const mean = residuals.length ? sum / residuals.length : 0;
+  // The optimum sits next to log2 of the mean, so only its neighbours are tried.
+  const estimate = mean > 1 ? Math.min(30, Math.floor(Math.log2(mean))) : 0;
+  let best = { k: 0, bits: Infinity };
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(30, estimate + 1); k++) {
+    const bits = riceBits(residuals, k);
+    if (bits < best.bits) best = { k, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (w: BitWriter, samples: Int32Array, bitDepth: number) => {
+  let best = { order: 0, residuals: samples, k: 0, bits: Infinity };
+  for (let order = 0; order <= Math.min(4, samples.length - 1); order++) {
+    const residuals = fixedResiduals(samples, order);
+    const rice = bestRiceParameter(residuals);
+    const bits = rice.bits + order * bitDepth;
+    if (bits < best.bits) best = { order, residuals, k: rice.k, bits };
+  }
+  // Fall back to a verbatim subframe when prediction does not help, e.g. white noise.
+  if (best.bits >= samples.length * bitDepth) {
+    w.bits(0b00000010, 8);
+    for (let i = 0; i < samples.length; i++) w.signed(samples[i], bitDepth);
+    return;
+  }
+  w.bits(0, 1);
+  w.bits(0b001000 | best.order, 6);
+  w.bits(0, 1); // no wasted bits
+  for (let i = 0; i < best.order; i++) w.signed(samples[i], bitDepth);
+  // Rice coding with 5 bit parameters, a single partition.
+  w.bits(0b01, 2);
+  w.bits(0, 4);
+  w.bits(best.k, 5);
+  for (let i = 0; i < best.residuals.length; i++) {
+    const u = zigzag(best.residuals[i]);
+    w.unary(Math.floor(u / 2 ** best.k));
+    if (best.k) w.bits(u % 2 ** best.k, best.k);
+  }
+};
+
+/** Encodes a frame number with the UTF-8 style variable length code FLAC uses. */
+const writeUtf8Number = (w: BitWriter, value: number) => {
+  if (value < 0x80) {
+    w.bits(value, 8);
+    return;
+  }
+  let extraBytes = 1;
+  while (value >= 2 ** (6 + 5 * extraBytes)) extraBytes++;
+  const lead = ((0xff00 >> (extraBytes + 1)) & 0xff) | Math.floor(value / 2 ** (6 * extraBytes));
+  w.bits(lead & 0xff, 8);
+  for (let i = extraBytes - 1; i >= 0; i--) {
+    w.bits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+/**
+ * Converts an AudioBuffer to a FLAC file Blob using fixed predictors and Rice coding.
+ * @param buffer The AudioBuffer to convert.
+ * @param settings Bit depth (16 or 24) and dither.
+ * @param metadata Tags written to a Vorbis comment block, if given.
+ * @returns A Blob representing the FLAC file.
+ */
+export function audioBufferToFlac(buffer: AudioBuffer, settings: Pick<ExportSettings, 'bitDepth' | 'dither'>, metadata?: ExportMetadata): Blob {
+  const numOfChan = buffer.numberOfChannels;
+  const bitDepth = settings.bitDepth === 16 ? 16 : 24;
+  const blockSize = Math.max(16, Math.min(FLAC_BLOCK_SIZE, buffer.length));
+  const ints = getChannels(buffer).map(data => quantize(data, bitDepth, settings.dither));
+  const w = new BitWriter();
+
+  w.bits(0x664c6143, 32); // "fLaC"
+
+  // STREAMINFO
+  w.bits(metadata ? 0 : 1, 1); // last metadata block flag
+  w.bits(0, 7);
+  w.bits(34, 24);
+  w.bits(blockSize, 16);
+  w.bits(blockSize, 16);
+  w.bits(0, 24); // min frame size, unknown
+  w.bits(0, 24); // max frame size, unknown
+  w.bits(buffer.sampleRate, 20);
+  w.bits(numOfChan - 1, 3);
+  w.bits(bitDepth - 1, 5);
+  w.bits(Math.floor(buffer.length / 2 ** 32), 4);
+  w.bits(buffer.length >>> 0, 32);
+  for (let i = 0; i < 4; i++) w.bits(0, 32); // MD5, unknown
+
+  if (metadata) {
+    // Vorbis comments use little endian lengths, unlike the rest of FLAC.
+    const comments = [
+      `TITLE=${metadata.title}`,
+      `ENCODER=${metadata.software}`,
+      ...(metadata.date ? [`DATE=${formatDate(metadata.date)}`] : []),
+      `COMMENT=${metadata.comment}`,
+    ].map(text => textEncoder.encode(text));
+    const vendor = textEncoder.encode(metadata.software);
+    const le32 = (value: number) => {
+      for (let i = 0; i < 4; i++) w.bits((value >>> (8 * i)) & 0xff, 8);
+    };
+    const blockLength = 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+    w.bits(1, 1);
+    w.bits(4, 7);
+    w.bits(blockLength, 24);
+    le32(vendor.length);
+    vendor.forEach(byte => w.bits(byte, 8));
+    le32(comments.length);
+    for (const comment of comments) {
+      le32(comment.length);
+      comment.forEach(byte => w.bits(byte, 8));
+    }
+  }
+
+  const sampleSizeCode = bitDepth === 16 ? 0b100 : 0b110;
+  const rateHeader = flacSampleRateHeader(buffer.sampleRate);
+  for (let frame = 0, start = 0; start < buffer.length; frame++, start += blockSize) {
+    const length = Math.min(blockSize, buffer.length - start);
+    const frameStart = w.byteLength;
+    w.bits(0xfff8, 16); // sync code, fixed block size
+    w.bits(0b0111, 4); // block size stored as 16 bits at the end of the header
+    w.bits(rateHeader.code, 4);
+    w.bits(numOfChan - 1, 4); // independent channels
+    w.bits(sampleSizeCode, 3);
+    w.bits(0, 1);
+    writeUtf8Number(w, frame);
+    w.bits(length - 1, 16);
+    if (rateHeader.extra) w.bits(rateHeader.extra.value, rateHeader.extra.bits);
+    w.bits(crc8(w.slice(frameStart, w.byteLength)), 8);
+
+    for (let c = 0; c < numOfChan; c++) {
+      writeSubframe(w, ints[c].subarray(start, start + length), bitDepth);
+    }
+    w.alignToByte();
+    w.bits(crc16(w.slice(frameStart, w.byteLength)), 16);
+  }
+
+  return new Blob([w.result()], { type: formatMimeTypes.flac });
+}
+
+/**
+ * Encodes an AudioBuffer with the browser's MediaRecorder by playing it in
+ * real time into a MediaStream. Takes as long as the buffer lasts.
+ * @param buffer The AudioBuffer to encode.
+ * @param format 'webm' or 'ogg', both with the Opus codec.
+ * @returns A Blob with the compressed audio.
+ */
+const encodeWithMediaRecorder = async (buffer: AudioBuffer, format: ExportFormat): Promise<Blob> => {
+  const context = new AudioContext({ sampleRate: buffer.sampleRate });
+  try {
+    const destination = context.createMediaStreamDestination();
+    destination.channelCount = buffer.numberOfChannels;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType: formatMimeTypes[format] });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    source.onended = () => recorder.stop();
+
+    await context.resume();
+    recorder.start();
+    source.start();
+    await stopped;
+    return new Blob(chunks, { type: formatMimeTypes[format] });
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Encodes an AudioBuffer in the requested export format.
+ * @param buffer The rendered audio.
+ * @param settings Format, bit depth, dither and whether to embed metadata.
+ * @param metadata Tags for the formats that support them.
+ * @returns A Blob of the encoded file.
+ */
+export const encodeAudio = async (buffer: AudioBuffer, settings: ExportSettings, metadata: ExportMetadata): Promise<Blob> => {
+  const tags = settings.embedMetadata ? metadata : undefined;
+  switch (settings.format) {
+    case 'aiff':
+      return audioBufferToAiff(buffer, settings, tags);
+    case 'flac':
+      return audioBufferToFlac(buffer, settings, tags);
+    case 'webm':
+    case 'ogg':
+      return encodeWithMediaRecorder(buffer, settings.format);
+    default:
+      return audioBufferToWav(buffer, settings, tags);
+  }
+};
+
+/**
+ * Expands a filename template. Supported tokens: {name}, {date}, {time},
+ * {pitch}, {formant}, {robot}, {speed} and {format}.
+ * @param template The template, without extension.
+ * @param values Values for the parameter tokens.
+ * @param settings The export settings, for the extension and {format}.
+ * @param date The time stamp used for {date} and {time}.
+ * @param name The rendered take's name for {name}, a generic one when left out.
+ * @returns A filename that is safe to download, including its extension.
+ */
+export const expandFilenameTemplate = (
+  template: string,
+  values: Record<string, number>,
+  settings: ExportSettings,
+  date: Date,
+  name = 'lo-modics-output',
+): string => {
+  const tokens: Record<string, string> = {
+    name,
+    date: formatDate(date),
+    time: formatTime(date, '-'),
+    format: settings.format === 'webm' || settings.format === 'ogg' ? 'opus' : `${settings.bitDepth}bit`,
+  };
+  for (const [key, value] of Object.entries(values)) {
+    tokens[key] = value.toFixed(2);
+  }
+  const expanded = template.replace(/\{(\w+)\}/g, (match, key: string) => tokens[key] ?? match);
+  const safe = expanded.replace(/[\\/:*?"<>|]+/g, '_').trim() || tokens.name;
+  return `${safe}.${formatExtensions[settings.format]}`;
+};
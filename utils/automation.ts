@@ -0,0 +1,79 @@
+import type { AutomatableParam, AutomationLanes, AutomationPoint, LoopRegion } from '../types';
+
+export const automatableParams: AutomatableParam[] = ['pitch', 'size', 'carrierNoise'];
+
+export const emptyAutomation: AutomationLanes = { pitch: [], size: [], carrierNoise: [] };
+
+/**
+ * Reads the value a lane holds at a point in the recording. Lanes step from
+ * point to point; the worklet smooths the steps.
+ * @param lane The lane's points, sorted by time.
+ * @param time The position in the recording, in seconds.
+ * @param fallback The value used when the lane is empty.
+ * @returns The lane's value at that time.
+ */
+export const automationValueAt = (lane: AutomationPoint[], time: number, fallback: number): number => {
+  if (!lane.length) return fallback;
+  // Before the first point the lane holds its first value, so a loop that
+  // starts early does not jump back to the slider's position.
+  let value = lane[0].value;
+  for (const point of lane) {
+    if (point.time > time) break;
+    value = point.value;
+  }
+  return value;
+};
+
+/**
+ * Writes a point into a lane, replacing what was recorded between the
+ * previous point of the same pass and this one.
+ * @param lane The lane's points, sorted by time.
+ * @param point The new point.
+ * @param overwriteFrom Start of the span being recorded over, or null on the first point of a pass.
+ * @returns The new lane.
+ */
+export const writeAutomationPoint = (lane: AutomationPoint[], point: AutomationPoint, overwriteFrom: number | null): AutomationPoint[] => {
+  const from = overwriteFrom !== null && overwriteFrom <= point.time ? overwriteFrom : point.time;
+  const kept = lane.filter(existing => existing.time < from || existing.time > point.time || existing.time === overwriteFrom);
+  const index = kept.findIndex(existing => existing.time > point.time);
+  return index === -1 ? [...kept, point] : [...kept.slice(0, index), point, ...kept.slice(index)];
+};
+
+/**
+ * Calls back with every point a looping source passes over a stretch of
+ * context time, along with the context time it is reached at.
+ * @param lane The lane's points, sorted by time.
+ * @param region The loop region the source plays.
+ * @param position The position in the recording at `from`.
+ * @param rate The playback rate.
+ * @param from Start of the stretch, in context seconds.
+ * @param to End of the stretch, in context seconds.
+ * @param onPoint Receives each point's value and context time. Loop wraps report the value at the region start.
+ */
+export const forEachAutomationPoint = (
+  lane: AutomationPoint[],
+  region: LoopRegion,
+  position: number,
+  rate: number,
+  from: number,
+  to: number,
+  onPoint: (value: number, contextTime: number) => void,
+) => {
+  let cursor = position;
+  let contextTime = from;
+  // Bounded, in case a tiny region at a high rate wraps many times per window.
+  for (let pass = 0; pass < 64 && contextTime < to; pass++) {
+    const end = Math.min(region.end, cursor + (to - contextTime) * rate);
+    for (const point of lane) {
+      if (point.time >= cursor && point.time < end) {
+        onPoint(point.value, contextTime + (point.time - cursor) / rate);
+      }
+    }
+    if (end < region.end) break;
+    contextTime += (region.end - cursor) / rate;
+    cursor = region.start;
+    if (contextTime < to && lane.length) {
+      onPoint(automationValueAt(lane, region.start, lane[0].value), contextTime);
+    }
+  }
+};
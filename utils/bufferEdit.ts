@@ -0,0 +1,116 @@
+import type { LoopRegion, WaveformEdit } from '../types';
+
+/** Converts a region in seconds to sample indices, clamped to the buffer. */
+const regionToSamples = (buffer: AudioBuffer, region: LoopRegion) => {
+  const start = Math.max(0, Math.min(buffer.length, Math.round(region.start * buffer.sampleRate)));
+  const end = Math.max(start, Math.min(buffer.length, Math.round(region.end * buffer.sampleRate)));
+  return { start, end };
+};
+
+/**
+ * Copies part of an AudioBuffer into a new buffer.
+ * @param buffer The source buffer.
+ * @param start First sample to copy.
+ * @param end Sample after the last one to copy.
+ * @returns A new buffer with the same channel count and sample rate.
+ */
+const sliceBuffer = (buffer: AudioBuffer, start: number, end: number): AudioBuffer => {
+  const copy = new AudioBuffer({
+    length: Math.max(1, end - start),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    copy.copyToChannel(buffer.getChannelData(c).subarray(start, end), c);
+  }
+  return copy;
+};
+
+/**
+ * Scales an AudioBuffer in place so its loudest sample hits a target peak.
+ * @param buffer The AudioBuffer to normalise.
+ * @param peakDb The target peak level in dBFS.
+ */
+export function normalizeBuffer(buffer: AudioBuffer, peakDb: number) {
+  let peak = 0;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+  }
+  if (peak === 0) return;
+  const gain = 10 ** (peakDb / 20) / peak;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= gain;
+    }
+  }
+}
+
+/**
+ * Applies a destructive edit to a copy of a buffer. The original is left
+ * untouched, since a playing source node may still be reading it.
+ * @param buffer The buffer to edit.
+ * @param edit The operation. Trim, reverse and the fades act on the region,
+ * normalise acts on the whole buffer.
+ * @param region The selected region in seconds.
+ * @param peakDb The target peak for normalise, in dBFS.
+ * @returns The edited buffer.
+ */
+export const applyBufferEdit = (buffer: AudioBuffer, edit: WaveformEdit, region: LoopRegion, peakDb: number): AudioBuffer => {
+  const { start, end } = regionToSamples(buffer, region);
+  if (edit === 'trim') {
+    return sliceBuffer(buffer, start, end);
+  }
+
+  const edited = sliceBuffer(buffer, 0, buffer.length);
+  if (edit === 'normalize') {
+    normalizeBuffer(edited, peakDb);
+    return edited;
+  }
+
+  const length = end - start;
+  for (let c = 0; c < edited.numberOfChannels; c++) {
+    const data = edited.getChannelData(c);
+    if (edit === 'reverse') {
+      data.subarray(start, end).reverse();
+      continue;
+    }
+    for (let i = 0; i < length; i++) {
+      // Equal power curves keep the middle of the fade from dipping.
+      const t = length > 1 ? i / (length - 1) : 1;
+      const gain = edit === 'fadeIn' ? Math.sin(t * Math.PI / 2) : Math.cos(t * Math.PI / 2);
+      data[start + i] *= gain;
+    }
+  }
+  return edited;
+};
+
+/**
+ * Reduces a buffer to one min/max pair per pixel column for drawing.
+ * @param buffer The buffer to summarise, across all of its channels.
+ * @param columns The number of columns to produce.
+ * @returns Interleaved minimum and maximum values, two per column.
+ */
+export const waveformPeaks = (buffer: AudioBuffer, columns: number): Float32Array => {
+  const peaks = new Float32Array(columns * 2);
+  const samplesPerColumn = buffer.length / columns;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let col = 0; col < columns; col++) {
+      const from = Math.floor(col * samplesPerColumn);
+      const to = Math.max(from + 1, Math.floor((col + 1) * samplesPerColumn));
+      let min = peaks[col * 2];
+      let max = peaks[col * 2 + 1];
+      for (let i = from; i < to && i < data.length; i++) {
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+      }
+      peaks[col * 2] = min;
+      peaks[col * 2 + 1] = max;
+    }
+  }
+  return peaks;
+};
@@ -0,0 +1,344 @@
+import type { EffectConfig, EffectType, LfoDivision } from '../types';
+
+/** Length of each note division, in beats. */
+export const divisionBeats: Record<LfoDivision, number> = {
+  '2/1': 8,
+  '1/1': 4,
+  '1/2': 2,
+  '1/4': 1,
+  '1/8': 0.5,
+  '1/16': 0.25,
+  '1/4t': 2 / 3,
+  '1/8t': 1 / 3,
+  '1/4d': 1.5,
+  '1/8d': 0.75,
+};
+
+export const effectLabels: Record<EffectType, string> = {
+  reverb: 'Reverb',
+  delay: 'Delay',
+  chorus: 'Chorus',
+  bitcrush: 'Bitcrush',
+  distortion: 'Distortion',
+  compressor: 'Compressor',
+};
+
+/** Settings a newly added effect starts with, keyed by type. */
+export const effectDefaults: { [T in EffectType]: Omit<Extract<EffectConfig, { type: T }>, 'id'> } = {
+  reverb: { type: 'reverb', bypass: false, mix: 0.3, decaySeconds: 2.5, preDelayMs: 20, damping: 0.5 },
+  delay: { type: 'delay', bypass: false, mix: 0.3, timeMs: 375, sync: true, division: '1/8d', feedback: 0.4, toneHz: 4000 },
+  chorus: { type: 'chorus', bypass: false, mix: 0.5, rateHz: 0.8, depthMs: 3, delayMs: 12 },
+  bitcrush: { type: 'bitcrush', bypass: false, mix: 1, bits: 8, downsample: 4 },
+  distortion: { type: 'distortion', bypass: false, mix: 1, driveDb: 12, toneHz: 6000 },
+  compressor: { type: 'compressor', bypass: false, mix: 1, thresholdDb: -18, ratio: 4, attackMs: 5, releaseMs: 120, makeupDb: 6 },
+};
+
+export const createEffectId = () => `fx-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Creates an effect of a type with its default settings. */
+export const createEffect = (type: EffectType): EffectConfig => ({ ...effectDefaults[type], id: createEffectId() } as EffectConfig);
+
+// Time constant of parameter changes on running effects, in seconds.
+const PARAM_RAMP_SECONDS = 0.02;
+const MAX_DELAY_SECONDS = 2;
+const MAX_PRE_DELAY_SECONDS = 0.5;
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+/**
+ * Sets an AudioParam, gliding there on a running graph to avoid clicks.
+ * @param immediate Jump straight to the value, used while building a graph.
+ */
+const setParam = (context: BaseAudioContext, param: AudioParam, value: number, immediate: boolean) => {
+  if (immediate) {
+    param.value = value;
+  } else {
+    param.setTargetAtTime(value, context.currentTime, PARAM_RAMP_SECONDS);
+  }
+};
+
+/**
+ * Generates a stereo impulse response of decaying noise. The noise is run
+ * through a one-pole low-pass that closes over the tail, so the highs die
+ * away first as in a real room.
+ */
+const createImpulseResponse = (context: BaseAudioContext, decaySeconds: number, damping: number) => {
+  const length = Math.max(1, Math.round(decaySeconds * context.sampleRate));
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+  for (let c = 0; c < 2; c++) {
+    const data = impulse.getChannelData(c);
+    let lowpassed = 0;
+    for (let i = 0; i < length; i++) {
+      const t = i / length;
+      // -60 dB at the end of the tail.
+      const envelope = 10 ** (-3 * t);
+      const coefficient = 1 - damping * 0.95 * t;
+      lowpassed += ((Math.random() * 2 - 1) - lowpassed) * coefficient;
+      data[i] = lowpassed * envelope;
+    }
+  }
+  return impulse;
+};
+
+/** Builds a tanh soft clipping curve, scaled so full scale input stays at full scale. */
+const createDriveCurve = (driveDb: number) => {
+  const drive = dbToGain(driveDb);
+  const curve = new Float32Array(2048);
+  for (let i = 0; i < curve.length; i++) {
+    const x = (i / (curve.length - 1)) * 2 - 1;
+    curve[i] = Math.tanh(x * drive) / Math.tanh(drive);
+  }
+  return curve;
+};
+
+/** The nodes that make up the wet path of one effect. */
+interface EffectProcessor {
+  input: AudioNode;
+  output: AudioNode;
+  update: (effect: EffectConfig, tempo: number, immediate: boolean) => void;
+  dispose?: () => void;
+}
+
+const createReverb = (context: BaseAudioContext): EffectProcessor => {
+  const preDelay = context.createDelay(MAX_PRE_DELAY_SECONDS);
+  const convolver = context.createConvolver();
+  preDelay.connect(convolver);
+  let impulseKey = '';
+  return {
+    input: preDelay,
+    output: convolver,
+    update: (effect, _tempo, immediate) => {
+      if (effect.type !== 'reverb') return;
+      setParam(context, preDelay.delayTime, Math.min(MAX_PRE_DELAY_SECONDS, effect.preDelayMs / 1000), immediate);
+      // Regenerating the impulse is costly, so only do it when its shape changes.
+      const key = `${effect.decaySeconds}:${effect.damping}`;
+      if (key !== impulseKey) {
+        impulseKey = key;
+        convolver.buffer = createImpulseResponse(context, effect.decaySeconds, effect.damping);
+      }
+    },
+  };
+};
+
+const createDelay = (context: BaseAudioContext): EffectProcessor => {
+  const delay = context.createDelay(MAX_DELAY_SECONDS);
+  const tone = context.createBiquadFilter();
+  tone.type = 'lowpass';
+  const feedback = context.createGain();
+  delay.connect(tone).connect(feedback).connect(delay);
+  return {
+    input: delay,
+    output: tone,
+    update: (effect, tempo, immediate) => {
+      if (effect.type !== 'delay') return;
+      const seconds = effect.sync ? (60 / tempo) * divisionBeats[effect.division] : effect.timeMs / 1000;
+      setParam(context, delay.delayTime, Math.min(MAX_DELAY_SECONDS, seconds), immediate);
+      setParam(context, feedback.gain, effect.feedback, immediate);
+      setParam(context, tone.frequency, effect.toneHz, immediate);
+    },
+  };
+};
+
+/** Two modulated delay lines, swept in opposite directions and sent to opposite sides. */
+const createChorus = (context: BaseAudioContext): EffectProcessor => {
+  const input = context.createGain();
+  const left = context.createDelay(0.1);
+  const right = context.createDelay(0.1);
+  const merger = context.createChannelMerger(2);
+  const lfo = context.createOscillator();
+  const depth = context.createGain();
+  const inverted = context.createGain();
+  inverted.gain.value = -1;
+  input.connect(left).connect(merger, 0, 0);
+  input.connect(right).connect(merger, 0, 1);
+  lfo.connect(depth);
+  depth.connect(left.delayTime);
+  depth.connect(inverted).connect(right.delayTime);
+  lfo.start();
+  return {
+    input,
+    output: merger,
+    update: (effect, _tempo, immediate) => {
+      if (effect.type !== 'chorus') return;
+      setParam(context, lfo.frequency, effect.rateHz, immediate);
+      setParam(context, depth.gain, effect.depthMs / 1000, immediate);
+      setParam(context, left.delayTime, effect.delayMs / 1000, immediate);
+      setParam(context, right.delayTime, effect.delayMs / 1000, immediate);
+    },
+    dispose: () => lfo.stop(),
+  };
+};
+
+/** Runs on the 'bitcrusher-processor' registered by the vocoder's worklet module. */
+const createBitcrush = (context: BaseAudioContext): EffectProcessor => {
+  const crusher = new AudioWorkletNode(context, 'bitcrusher-processor', { outputChannelCount: [2] });
+  return {
+    input: crusher,
+    output: crusher,
+    update: (effect, _tempo, immediate) => {
+      if (effect.type !== 'bitcrush') return;
+      // Both are stepped by nature, so there is nothing to glide.
+      crusher.parameters.get('bits')!.setValueAtTime(effect.bits, immediate ? 0 : context.currentTime);
+      crusher.parameters.get('downsample')!.setValueAtTime(effect.downsample, immediate ? 0 : context.currentTime);
+    },
+  };
+};
+
+const createDistortion = (context: BaseAudioContext): EffectProcessor => {
+  const shaper = context.createWaveShaper();
+  shaper.oversample = '4x';
+  const tone = context.createBiquadFilter();
+  tone.type = 'lowpass';
+  shaper.connect(tone);
+  let drive: number | null = null;
+  return {
+    input: shaper,
+    output: tone,
+    update: (effect, _tempo, immediate) => {
+      if (effect.type !== 'distortion') return;
+      if (effect.driveDb !== drive) {
+        drive = effect.driveDb;
+        shaper.curve = createDriveCurve(effect.driveDb);
+      }
+      setParam(context, tone.frequency, effect.toneHz, immediate);
+    },
+  };
+};
+
+const createCompressor = (context: BaseAudioContext): EffectProcessor => {
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  compressor.connect(makeup);
+  return {
+    input: compressor,
+    output: makeup,
+    update: (effect, _tempo, immediate) => {
+      if (effect.type !== 'compressor') return;
+      setParam(context, compressor.threshold, effect.thresholdDb, immediate);
+      setParam(context, compressor.ratio, effect.ratio, immediate);
+      setParam(context, compressor.attack, effect.attackMs / 1000, immediate);
+      setParam(context, compressor.release, effect.releaseMs / 1000, immediate);
+      setParam(context, makeup.gain, dbToGain(effect.makeupDb), immediate);
+    },
+  };
+};
+
+const processorFactories: Record<EffectType, (context: BaseAudioContext) => EffectProcessor> = {
+  reverb: createReverb,
+  delay: createDelay,
+  chorus: createChorus,
+  bitcrush: createBitcrush,
+  distortion: createDistortion,
+  compressor: createCompressor,
+};
+
+/** One effect in the rack: its processor between a dry/wet crossfade. */
+interface EffectUnit {
+  id: string;
+  type: EffectType;
+  input: GainNode;
+  output: GainNode;
+  update: (effect: EffectConfig, tempo: number, immediate: boolean) => void;
+  dispose: () => void;
+}
+
+const createUnit = (context: BaseAudioContext, effect: EffectConfig, tempo: number): EffectUnit => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const processor = processorFactories[effect.type](context);
+  input.connect(dry).connect(output);
+  input.connect(processor.input);
+  processor.output.connect(wet).connect(output);
+
+  const update = (next: EffectConfig, nextTempo: number, immediate: boolean) => {
+    processor.update(next, nextTempo, immediate);
+    setParam(context, dry.gain, next.bypass ? 1 : 1 - next.mix, immediate);
+    setParam(context, wet.gain, next.bypass ? 0 : next.mix, immediate);
+  };
+  update(effect, tempo, true);
+
+  return {
+    id: effect.id,
+    type: effect.type,
+    input,
+    output,
+    update,
+    dispose: () => {
+      processor.dispose?.();
+      input.disconnect();
+      output.disconnect();
+    },
+  };
+};
+
+export interface EffectChain {
+  /** Connect the source here. */
+  input: GainNode;
+  /** Connect this to where the processed signal goes. */
+  output: GainNode;
+  /**
+   * Brings the chain in line with new settings. Effects are matched by id,
+   * so changed settings glide and only added effects build new nodes.
+   */
+  update: (effects: EffectConfig[], tempo: number) => void;
+  dispose: () => void;
+}
+
+/**
+ * Builds the effects rack in a context. Its input and output nodes stay
+ * the same for the life of the chain, whatever effects it holds.
+ * @param context The context to build in. For the bitcrusher, the vocoder's worklet module must be loaded into it.
+ * @param effects The effects, in signal order.
+ * @param tempo The tempo synced delays follow, in BPM.
+ * @returns The chain.
+ */
+export const createEffectChain = (context: BaseAudioContext, effects: EffectConfig[], tempo: number): EffectChain => {
+  const input = context.createGain();
+  const output = context.createGain();
+  let units: EffectUnit[] = [];
+
+  const connect = () => {
+    input.disconnect();
+    units.forEach(unit => unit.output.disconnect());
+    let previous: AudioNode = input;
+    for (const unit of units) {
+      previous.connect(unit.input);
+      previous = unit.output;
+    }
+    previous.connect(output);
+  };
+
+  const update = (nextEffects: EffectConfig[], nextTempo: number) => {
+    const existing = new Map(units.map(unit => [unit.id, unit]));
+    const next = nextEffects.map(effect => {
+      const unit = existing.get(effect.id);
+      if (unit && unit.type === effect.type) {
+        existing.delete(effect.id);
+        unit.update(effect, nextTempo, false);
+        return unit;
+      }
+      return createUnit(context, effect, nextTempo);
+    });
+    existing.forEach(unit => unit.dispose());
+    const reordered = next.length !== units.length || next.some((unit, i) => unit !== units[i]);
+    units = next;
+    if (reordered) connect();
+  };
+
+  units = effects.map(effect => createUnit(context, effect, tempo));
+  connect();
+
+  return {
+    input,
+    output,
+    update,
+    dispose: () => {
+      units.forEach(unit => unit.dispose());
+      units = [];
+      input.disconnect();
+      output.disconnect();
+    },
+  };
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSettings } from './patch';
+import { bandFrequencies } from './filterBank';
+
+describe('bandFrequencies', () => {
+  it('gives the default bank the centres of the original bank', () => {
+    const freqs = bandFrequencies(defaultSettings.bank);
+    [123, 294, 481, 746, 1387, 2255, 3403, 4865].forEach((freq, i) => {
+      expect(freqs[i]).toBeCloseTo(freq, 6);
+    });
+  });
+
+  it('keeps classic spacing within the bank limits for other band counts', () => {
+    const freqs = bandFrequencies({ ...defaultSettings.bank, bandCount: 20, minFreq: 80, maxFreq: 8000 });
+    expect(freqs).toHaveLength(20);
+    expect(freqs[0]).toBeCloseTo(80, 6);
+    expect(freqs[19]).toBeCloseTo(8000, 6);
+    freqs.slice(1).forEach((freq, i) => expect(freq).toBeGreaterThan(freqs[i]));
+  });
+});
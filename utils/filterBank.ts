@@ -0,0 +1,63 @@
+import type { BandLevel, BankConfig, BandSpacing } from '../types';
+
+interface Scale {
+  to: (freq: number) => number;
+  from: (value: number) => number;
+}
+
+// Frequency <-> perceptual scale conversions used to space the filter bank.
+const scales: Record<Exclude<BandSpacing, 'classic'>, Scale> = {
+  linear: { to: (f) => f, from: (x) => x },
+  log: { to: (f) => Math.log(f), from: (x) => Math.exp(x) },
+  mel: { to: (f) => 2595 * Math.log10(1 + f / 700), from: (m) => 700 * (10 ** (m / 2595) - 1) },
+  bark: { to: (f) => 26.81 * f / (1960 + f) - 0.53, from: (z) => 1960 * (z + 0.53) / (26.28 - z) },
+};
+
+// Centres of the original eight-band bank, which 'classic' spacing stretches
+// over any range and band count.
+const classicBandFrequencies = [123, 294, 481, 746, 1387, 2255, 3403, 4865];
+
+// Where each classic centre sits between the first and last, from 0 to 1 on a log scale.
+const classicPositions = classicBandFrequencies.map(freq =>
+  Math.log(freq / classicBandFrequencies[0]) / Math.log(classicBandFrequencies[classicBandFrequencies.length - 1] / classicBandFrequencies[0]));
+
+/**
+ * Bends an even position across the bank onto the classic centres,
+ * interpolating between them for other band counts.
+ */
+const classicWarp = (t: number) => {
+  const x = t * (classicPositions.length - 1);
+  const i = Math.min(Math.floor(x), classicPositions.length - 2);
+  return classicPositions[i] + (classicPositions[i + 1] - classicPositions[i]) * (x - i);
+};
+
+/**
+ * Computes the centre frequencies of a filter bank.
+ * @param bank The filter bank configuration.
+ * @returns The centre frequency of each band in Hz, lowest first.
+ */
+export const bandFrequencies = (bank: BankConfig): number[] => {
+  const isClassic = bank.spacing === 'classic';
+  const scale = scales[isClassic ? 'log' : bank.spacing];
+  const lo = scale.to(bank.minFreq);
+  const hi = scale.to(bank.maxFreq);
+  const freqs: number[] = [];
+  for (let i = 0; i < bank.bandCount; i++) {
+    const t = bank.bandCount > 1 ? i / (bank.bandCount - 1) : 0.5;
+    freqs.push(scale.from(lo + (hi - lo) * (isClassic ? classicWarp(t) : t)));
+  }
+  return freqs;
+};
+
+export const defaultBandLevel: BandLevel = { gain: 0, mute: false, solo: false };
+
+/**
+ * Grows or shrinks a list of band levels to a new band count, keeping existing entries.
+ * @param levels The current band levels.
+ * @param bandCount The number of bands the levels should cover.
+ * @returns A list with exactly bandCount entries.
+ */
+export const resizeBandLevels = (levels: BandLevel[], bandCount: number): BandLevel[] => {
+  if (levels.length === bandCount) return levels;
+  return Array.from({ length: bandCount }, (_, i) => levels[i] ?? defaultBandLevel);
+};
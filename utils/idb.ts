@@ -0,0 +1,65 @@
+const DATABASE_NAME = 'lo-modics';
+const DATABASE_VERSION = 2;
+
+/** Object stores in the app's database, keyed by their records' `id`. */
+export type StoreName = 'presets' | 'takes';
+
+const STORE_NAMES: StoreName[] = ['presets', 'takes'];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param request The request to wait for.
+ * @returns The request's result.
+ */
+export const idbRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the app's database, creating missing stores. The connection is shared.
+ * @returns The open database.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available.'));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked the first attempt.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+/**
+ * Runs a single request against an object store.
+ * @param storeName The store to use.
+ * @param mode Whether the transaction writes.
+ * @param run Creates the request from the store.
+ * @returns The request's result.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openDatabase();
+  const store = database.transaction(storeName, mode).objectStore(storeName);
+  return idbRequest(run(store));
+};
@@ -0,0 +1,123 @@
+import { Biquad, type BiquadCoeffs } from '../dsp/filters';
+
+/**
+ * Computes the two K-weighting stages of ITU-R BS.1770 for any sample rate:
+ * a high shelf modelling the head, then a high-pass. The constants are the
+ * analog prototypes the standard's 48 kHz coefficients were derived from.
+ * @param sampleRate The sample rate in Hz.
+ * @returns The shelf and high-pass stages.
+ */
+export const kWeightingFilters = (sampleRate: number): [BiquadCoeffs, BiquadCoeffs] => {
+  const shelfK = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+  const shelf: BiquadCoeffs = {
+    b0: (vh + vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    b1: 2 * (shelfK * shelfK - vh) / shelfA0,
+    b2: (vh - vb * shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    a1: 2 * (shelfK * shelfK - 1) / shelfA0,
+    a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+  };
+
+  const highpassK = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  const highpassQ = 0.5003270373238773;
+  const highpassA0 = 1 + highpassK / highpassQ + highpassK * highpassK;
+  const highpass: BiquadCoeffs = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (highpassK * highpassK - 1) / highpassA0,
+    a2: (1 - highpassK / highpassQ + highpassK * highpassK) / highpassA0,
+  };
+  return [shelf, highpass];
+};
+
+const filter = (data: Float32Array, coeffs: BiquadCoeffs): Float32Array => {
+  const biquad = new Biquad(coeffs);
+  return data.map(x => biquad.process(x));
+};
+
+/** Loudness of a mean square power summed over channels, in LUFS. */
+export const powerToLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+export interface LoudnessMeasurement {
+  /** Gated integrated loudness in LUFS, or -Infinity for silence. */
+  integratedLufs: number;
+  /** Highest sample on any channel, in dBFS. */
+  peakDb: number;
+}
+
+/**
+ * Measures the integrated loudness of a buffer following ITU-R BS.1770-4:
+ * K-weighted 400 ms blocks with 75% overlap, gated at -70 LUFS and then at
+ * 10 LU below the loudness of the blocks that passed.
+ * @param buffer The audio to measure. Every channel counts with weight 1.
+ * @returns The integrated loudness and sample peak.
+ */
+export const measureLoudness = (buffer: AudioBuffer): LoudnessMeasurement => {
+  const [shelf, highpass] = kWeightingFilters(buffer.sampleRate);
+  const blockLength = Math.round(0.4 * buffer.sampleRate);
+  const hop = Math.round(0.1 * buffer.sampleRate);
+  const blockCount = buffer.length >= blockLength ? Math.floor((buffer.length - blockLength) / hop) + 1 : 0;
+  const blockPowers = new Float64Array(blockCount);
+  let peak = 0;
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+    const weighted = filter(filter(data, shelf), highpass);
+    // Sum the squares of each 100 ms hop once, then add up four per block.
+    const hopSums = new Float64Array(Math.ceil(weighted.length / hop));
+    for (let i = 0; i < weighted.length; i++) {
+      hopSums[Math.floor(i / hop)] += weighted[i] * weighted[i];
+    }
+    const hopsPerBlock = Math.round(blockLength / hop);
+    for (let b = 0; b < blockCount; b++) {
+      let sum = 0;
+      for (let h = 0; h < hopsPerBlock; h++) sum += hopSums[b + h];
+      blockPowers[b] += sum / blockLength;
+    }
+  }
+
+  const gatedMean = (threshold: number) => {
+    let sum = 0;
+    let count = 0;
+    blockPowers.forEach(power => {
+      if (powerToLufs(power) > threshold) {
+        sum += power;
+        count++;
+      }
+    });
+    return count ? sum / count : 0;
+  };
+  const absoluteGated = gatedMean(-70);
+  const integrated = absoluteGated > 0 ? gatedMean(powerToLufs(absoluteGated) - 10) : 0;
+  return {
+    integratedLufs: integrated > 0 ? powerToLufs(integrated) : -Infinity,
+    peakDb: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+  };
+};
+
+/**
+ * Scales a buffer in place so its integrated loudness hits a target.
+ * @param buffer The buffer to scale.
+ * @param targetLufs The target loudness.
+ * @returns The loudness measured before scaling and the peak after it, or null for silence.
+ */
+export const normalizeLoudness = (buffer: AudioBuffer, targetLufs: number): LoudnessMeasurement | null => {
+  const measurement = measureLoudness(buffer);
+  if (!Number.isFinite(measurement.integratedLufs)) return null;
+  const gainDb = targetLufs - measurement.integratedLufs;
+  const gain = 10 ** (gainDb / 20);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      data[i] *= gain;
+    }
+  }
+  return { integratedLufs: measurement.integratedLufs, peakDb: measurement.peakDb + gainDb };
+};
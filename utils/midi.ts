@@ -0,0 +1,40 @@
+export type MidiEvent =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { type: 'noteOff'; channel: number; note: number }
+  | { type: 'controlChange'; channel: number; controller: number; value: number }
+  | { type: 'pitchBend'; channel: number; value: number };
+
+export const SUSTAIN_PEDAL_CC = 64;
+export const ALL_NOTES_OFF_CC = 123;
+
+/**
+ * Decodes a raw MIDI channel message.
+ * @param data The message bytes, as delivered by a MIDIMessageEvent.
+ * @returns The decoded event, or null for messages the vocoder does not use.
+ */
+export const parseMidiMessage = (data: Uint8Array | null): MidiEvent | null => {
+  if (!data || data.length < 2) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  const data1 = data[1] & 0x7f;
+  const data2 = data.length > 2 ? data[2] & 0x7f : 0;
+
+  switch (status) {
+    case 0x90:
+      // A note-on with zero velocity is a note-off by convention.
+      return data2 === 0
+        ? { type: 'noteOff', channel, note: data1 }
+        : { type: 'noteOn', channel, note: data1, velocity: data2 / 127 };
+    case 0x80:
+      return { type: 'noteOff', channel, note: data1 };
+    case 0xb0:
+      return { type: 'controlChange', channel, controller: data1, value: data2 };
+    case 0xe0: {
+      // 14 bit value centred on 8192, normalised to -1..1.
+      const raw = (data2 << 7) | data1;
+      return { type: 'pitchBend', channel, value: raw >= 8192 ? (raw - 8192) / 8191 : (raw - 8192) / 8192 };
+    }
+    default:
+      return null;
+  }
+};
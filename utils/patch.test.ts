@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { migratePatch, PATCH_VERSION } from './patch';
+
+describe('migratePatch', () => {
+  it('clamps numbers from an untrusted patch to the ranges of their controls', () => {
+    const patch = migratePatch({
+      params: { pitch: 1000, speed: 0 },
+      settings: {
+        bank: { bandCount: 100000, q: 0 },
+        carrier: { unison: 1e9 },
+        sequencer: { length: 3.7, steps: [{ note: -99, gate: 2 }] },
+        effects: [{ type: 'bitcrush', bits: 0.4, mix: -1 }],
+      },
+    }, PATCH_VERSION);
+    expect(patch.params.pitch).toBe(24);
+    expect(patch.params.speed).toBe(0.1);
+    expect(patch.settings.bank).toMatchObject({ bandCount: 40, q: 1 });
+    expect(patch.settings.bandLevels).toHaveLength(40);
+    expect(patch.settings.carrier.unison).toBe(8);
+    expect(patch.settings.sequencer.length).toBe(8);
+    expect(patch.settings.sequencer.steps[0]).toMatchObject({ note: -12, gate: 1 });
+    expect(patch.settings.effects[0]).toMatchObject({ bits: 1, mix: 0 });
+  });
+
+  it('rejects a version that is not a whole number from 0 up', () => {
+    for (const version of [-1, 0.5, NaN]) {
+      expect(() => migratePatch({ params: {}, settings: {} }, version)).toThrow(`The patch has an invalid version (${version}).`);
+    }
+  });
+
+  it('rounds counts to whole numbers', () => {
+    const patch = migratePatch({ params: {}, settings: { bank: { bandCount: 12.6 } } }, PATCH_VERSION);
+    expect(patch.settings.bank.bandCount).toBe(13);
+  });
+});
@@ -0,0 +1,379 @@
+import type { Patch, VocoderParams, VocoderSettings, BandLevel, LfoConfig, ModulationConfig, ModRoute, EffectConfig, EffectType, SequencerConfig, SequencerStep } from '../types';
+import { defaultBandLevel, resizeBandLevels } from './filterBank';
+import { createEffectId, effectDefaults } from './effects';
+
+export const defaultParams: VocoderParams = {
+  carrierNoise: 0.10,
+  size: 0.00,
+  speed: 1.00,
+  pitch: 0.30,
+};
+
+const defaultLfo: LfoConfig = {
+  shape: 'sine',
+  rateHz: 5,
+  sync: false,
+  division: '1/4',
+  phase: 0,
+};
+
+export const defaultModulation: ModulationConfig = {
+  lfo1: defaultLfo,
+  lfo2: { ...defaultLfo, shape: 'triangle', rateHz: 0.5 },
+  envelope: {
+    attackMs: 10,
+    releaseMs: 150,
+    sensitivityDb: 12,
+  },
+  tempo: 120,
+  routes: [],
+};
+
+const defaultRoute: ModRoute = { source: 'lfo1', destination: 'pitch', depth: 0 };
+
+// Semitones of the default sequence, a minor arpeggio repeated over the 32 steps.
+const defaultSequenceNotes = [0, 7, 12, 7, 3, 10, 15, 10];
+
+const defaultStep: SequencerStep = { note: 0, gate: 0, glide: false };
+
+/** Most steps a sequence can play; sequences always store this many. */
+export const MAX_SEQUENCER_STEPS = 32;
+
+export const defaultSequencer: SequencerConfig = {
+  length: 16,
+  steps: Array.from({ length: MAX_SEQUENCER_STEPS }, (_, i) => ({
+    note: defaultSequenceNotes[i % defaultSequenceNotes.length],
+    gate: 0.5,
+    glide: false,
+  })),
+  division: '1/16',
+  swing: 0,
+  scale: 'minor',
+  root: 0,
+  direction: 'forward',
+  glideMs: 60,
+};
+
+export const defaultSettings: VocoderSettings = {
+  bank: {
+    bandCount: 8,
+    spacing: 'classic',
+    minFreq: 123,
+    maxFreq: 4865,
+    q: 4,
+  },
+  envelope: {
+    attackMs: 4.5,
+    releaseMs: 1.1,
+  },
+  bandLevels: Array.from({ length: 8 }, () => defaultBandLevel),
+  carrier: {
+    waveform: 'square',
+    pulseWidth: 0.5,
+    unison: 3,
+    detune: 0.1,
+    chord: 'none',
+    pitchMode: 'fixed',
+  },
+  tracking: {
+    scale: 'off',
+    root: 0,
+    glideMs: 30,
+  },
+  sibilance: {
+    enabled: false,
+    threshold: 0.3,
+    amount: 0.5,
+  },
+  stereo: {
+    mode: 'mono',
+    width: 1,
+    carrierSpread: 0.5,
+  },
+  modulation: defaultModulation,
+  sequencer: defaultSequencer,
+  timeStretch: {
+    enabled: false,
+    grainMs: 50,
+  },
+  effects: [],
+  master: {
+    gainDb: 0,
+    limiter: true,
+    ceilingDb: -1,
+    autoGain: false,
+  },
+};
+
+/**
+ * Version of the patch schema. Bump it whenever a change needs more than
+ * filling in defaults, and add a step to `migrations`.
+ */
+export const PATCH_VERSION = 1;
+
+const PATCH_FILE_FORMAT = 'lo-modics-patch';
+const HASH_KEY = 'patch';
+
+/** A patch as written to disk or into a share link. */
+interface PatchFile {
+  format: typeof PATCH_FILE_FORMAT;
+  version: number;
+  name: string;
+  patch: Patch;
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Steps that upgrade a raw patch from the version they are keyed by to the next.
+ * Version 0 is a bare `VocoderParams` object, from before settings existed.
+ */
+const migrations: Record<number, (patch: Json) => Json> = {
+  0: (params) => ({ params, settings: {} }),
+};
+
+// String settings that must hold one of a fixed set of values.
+const enumValues: Record<string, string[]> = {
+  spacing: ['classic', 'log', 'bark', 'mel', 'linear'],
+  waveform: ['saw', 'square', 'pulse', 'triangle', 'supersaw', 'noise'],
+  chord: ['none', 'octave', 'fifth', 'major', 'minor', 'sus4', 'maj7', 'min7'],
+  pitchMode: ['fixed', 'midi', 'track', 'sequence'],
+  scale: ['off', 'chromatic', 'major', 'minor', 'pentatonic', 'blues'],
+  shape: ['sine', 'triangle', 'saw', 'square', 'random'],
+  division: ['2/1', '1/1', '1/2', '1/4', '1/8', '1/16', '1/4t', '1/8t', '1/4d', '1/8d'],
+  source: ['lfo1', 'lfo2', 'envelope'],
+  destination: ['pitch', 'size', 'carrierNoise', 'q', 'gain'],
+  mode: ['mono', 'alternate', 'spread', 'true'],
+  direction: ['forward', 'reverse', 'pingpong', 'random'],
+};
+
+interface Range {
+  min: number;
+  max: number;
+  /** Counts such as bands or voices, which are rounded. */
+  integer?: boolean;
+}
+
+type Ranges<T> = { [K in keyof T]?: Range };
+
+const range = (min: number, max: number, integer = false): Range => ({ min, max, integer });
+
+// Limits of the numbers in each section, the same as the controls that edit
+// them. Patches arrive from files and share links, and a Q of 0 or a hundred
+// thousand bands would fill the DSP with NaN or hang it.
+const paramRanges: Ranges<VocoderParams> = {
+  carrierNoise: range(0, 1),
+  size: range(-2, 2),
+  speed: range(0.1, 2),
+  pitch: range(-24, 24),
+};
+
+const settingRanges: { [K in keyof VocoderSettings]?: Ranges<VocoderSettings[K]> } = {
+  bank: { bandCount: range(4, 40, true), minFreq: range(40, 1000), maxFreq: range(1500, 16000), q: range(1, 16) },
+  envelope: { attackMs: range(0.1, 200), releaseMs: range(0.1, 1000) },
+  carrier: { pulseWidth: range(0.05, 0.95), unison: range(1, 8, true), detune: range(0, 1) },
+  tracking: { root: range(0, 11, true), glideMs: range(0, 500) },
+  sibilance: { threshold: range(0.05, 0.9), amount: range(0, 1) },
+  stereo: { width: range(0, 2), carrierSpread: range(0, 1) },
+  modulation: { tempo: range(40, 240) },
+  sequencer: { length: range(8, MAX_SEQUENCER_STEPS, true), swing: range(0, 0.5), root: range(0, 11, true), glideMs: range(5, 500) },
+  timeStretch: { grainMs: range(20, 100) },
+  master: { gainDb: range(-24, 12), ceilingDb: range(-12, 0) },
+};
+
+const bandLevelRanges: Ranges<BandLevel> = { gain: range(-24, 12) };
+const lfoRanges: Ranges<LfoConfig> = { rateHz: range(0.05, 20), phase: range(0, 1) };
+const modEnvelopeRanges: Ranges<ModulationConfig['envelope']> = { attackMs: range(1, 500), releaseMs: range(1, 2000), sensitivityDb: range(0, 36) };
+const routeRanges: Ranges<ModRoute> = { depth: range(-1, 1) };
+const stepRanges: Ranges<SequencerStep> = { note: range(-12, 24, true), gate: range(0, 1) };
+
+const mix = range(0, 1);
+const toneHz = range(500, 16000);
+const effectRanges: { [T in EffectType]: Ranges<Extract<EffectConfig, { type: T }>> } = {
+  reverb: { mix, decaySeconds: range(0.2, 8), preDelayMs: range(0, 200), damping: range(0, 1) },
+  delay: { mix, timeMs: range(10, 2000), feedback: range(0, 0.95), toneHz },
+  chorus: { mix, rateHz: range(0.05, 5), depthMs: range(0, 5), delayMs: range(5, 30) },
+  bitcrush: { mix, bits: range(1, 16, true), downsample: range(1, 32, true) },
+  distortion: { mix, driveDb: range(0, 36), toneHz },
+  compressor: { mix, thresholdDb: range(-60, 0), ratio: range(1, 20), attackMs: range(0, 100), releaseMs: range(10, 1000), makeupDb: range(0, 24) },
+};
+
+/**
+ * Copies the fields of a raw object that match the type of the defaults,
+ * taking the default for anything missing or malformed and clamping numbers
+ * to their range.
+ */
+const mergeSection = <T extends object>(defaults: T, raw: unknown, ranges: Ranges<T> = {}): T => {
+  if (!isObject(raw)) return defaults;
+  const merged = { ...defaults } as Record<string, unknown>;
+  for (const [key, fallback] of Object.entries(defaults)) {
+    let value = raw[key];
+    if (typeof value !== typeof fallback) continue;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) continue;
+      const limits = (ranges as Record<string, Range | undefined>)[key];
+      if (limits) {
+        value = Math.max(limits.min, Math.min(limits.max, limits.integer ? Math.round(value) : value));
+      }
+    }
+    if (typeof value === 'string' && enumValues[key] && !enumValues[key].includes(value)) continue;
+    merged[key] = value;
+  }
+  return merged as T;
+};
+
+/**
+ * Brings a patch of any known version up to the current schema and fills
+ * in anything it lacks from the defaults.
+ * @param raw The parsed patch.
+ * @param version The schema version it was saved with.
+ * @returns A complete patch.
+ * @throws If the patch is newer than this app, has an invalid version or is not an object.
+ */
+export const migratePatch = (raw: unknown, version: number): Patch => {
+  if (!isObject(raw)) {
+    throw new Error('The patch is not an object.');
+  }
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`The patch has an invalid version (${version}).`);
+  }
+  if (version > PATCH_VERSION) {
+    throw new Error(`The patch was saved by a newer version (${version}) of Lo-Modics.`);
+  }
+  let patch = raw;
+  for (let v = version; v < PATCH_VERSION; v++) {
+    patch = migrations[v](patch);
+  }
+
+  const settings = isObject(patch.settings) ? patch.settings : {};
+  const bank = mergeSection(defaultSettings.bank, settings.bank, settingRanges.bank);
+  const bandLevels: BandLevel[] = Array.isArray(settings.bandLevels)
+    ? settings.bandLevels.map(level => mergeSection(defaultBandLevel, level, bandLevelRanges))
+    : [];
+  const modulation = isObject(settings.modulation) ? settings.modulation : {};
+  const sequencer = isObject(settings.sequencer) ? settings.sequencer : {};
+  const steps = Array.isArray(sequencer.steps) ? sequencer.steps : [];
+  // Effects of unknown types are dropped; the rest keep their ids, which must be unique.
+  const ids = new Set<string>();
+  const effects: EffectConfig[] = [];
+  if (Array.isArray(settings.effects)) {
+    for (const raw of settings.effects) {
+      if (!isObject(raw) || typeof raw.type !== 'string' || !(raw.type in effectDefaults)) continue;
+      const type = raw.type as EffectType;
+      const defaults = { ...effectDefaults[type], id: createEffectId() } as EffectConfig;
+      const effect = mergeSection(defaults, raw, effectRanges[type] as Ranges<EffectConfig>);
+      if (ids.has(effect.id)) effect.id = defaults.id;
+      ids.add(effect.id);
+      effects.push(effect);
+    }
+  }
+  return {
+    params: mergeSection(defaultParams, patch.params, paramRanges),
+    settings: {
+      bank,
+      envelope: mergeSection(defaultSettings.envelope, settings.envelope, settingRanges.envelope),
+      bandLevels: resizeBandLevels(bandLevels, bank.bandCount),
+      carrier: mergeSection(defaultSettings.carrier, settings.carrier, settingRanges.carrier),
+      tracking: mergeSection(defaultSettings.tracking, settings.tracking, settingRanges.tracking),
+      sibilance: mergeSection(defaultSettings.sibilance, settings.sibilance, settingRanges.sibilance),
+      stereo: mergeSection(defaultSettings.stereo, settings.stereo, settingRanges.stereo),
+      modulation: {
+        ...mergeSection(defaultModulation, modulation, settingRanges.modulation),
+        lfo1: mergeSection(defaultModulation.lfo1, modulation.lfo1, lfoRanges),
+        lfo2: mergeSection(defaultModulation.lfo2, modulation.lfo2, lfoRanges),
+        envelope: mergeSection(defaultModulation.envelope, modulation.envelope, modEnvelopeRanges),
+        routes: Array.isArray(modulation.routes)
+          ? modulation.routes.map(route => mergeSection(defaultRoute, route, routeRanges)).filter(route => route.depth !== 0)
+          : [],
+      },
+      sequencer: {
+        ...mergeSection(defaultSequencer, sequencer, settingRanges.sequencer),
+        steps: defaultSequencer.steps.map((step, i) => i < steps.length ? mergeSection(defaultStep, steps[i], stepRanges) : step),
+      },
+      timeStretch: mergeSection(defaultSettings.timeStretch, settings.timeStretch, settingRanges.timeStretch),
+      effects,
+      master: mergeSection(defaultSettings.master, settings.master, settingRanges.master),
+    },
+  };
+};
+
+/**
+ * Serialises a patch to the JSON patch file format.
+ * @param name The name stored with the patch.
+ * @param patch The patch to save.
+ * @returns Pretty printed JSON.
+ */
+export const serializePatchFile = (name: string, patch: Patch): string => {
+  const file: PatchFile = { format: PATCH_FILE_FORMAT, version: PATCH_VERSION, name, patch };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a JSON patch file, migrating older versions.
+ * @param text The file's contents.
+ * @returns The patch and the name it was saved under.
+ * @throws If the text is not a patch file.
+ */
+export const parsePatchFile = (text: string): { name: string; patch: Patch } => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(file)) {
+    throw new Error('The file is not a Lo-Modics patch.');
+  }
+  // Files without the envelope are taken to be bare parameter objects.
+  if (file.format !== PATCH_FILE_FORMAT) {
+    if (!('pitch' in file || 'carrierNoise' in file)) {
+      throw new Error('The file is not a Lo-Modics patch.');
+    }
+    return { name: 'Imported', patch: migratePatch(file, 0) };
+  }
+  const version = typeof file.version === 'number' ? file.version : 0;
+  return {
+    name: typeof file.name === 'string' && file.name ? file.name : 'Imported',
+    patch: migratePatch(file.patch, version),
+  };
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+/**
+ * Encodes a patch for the URL hash, so a link reproduces the sound.
+ * @param patch The patch to share.
+ * @returns The hash, including the leading '#'.
+ */
+export const encodePatchHash = (patch: Patch): string =>
+  `#${HASH_KEY}=${toBase64Url(JSON.stringify({ v: PATCH_VERSION, p: patch }))}`;
+
+/**
+ * Reads a patch from a URL hash written by `encodePatchHash`.
+ * @param hash The hash, e.g. `location.hash`.
+ * @returns The patch, or null if the hash holds none or it is malformed.
+ */
+export const decodePatchHash = (hash: string): Patch | null => {
+  const match = hash.match(new RegExp(`[#&]${HASH_KEY}=([A-Za-z0-9_-]+)`));
+  if (!match) return null;
+  try {
+    const shared = JSON.parse(fromBase64Url(match[1]));
+    return migratePatch(shared.p, typeof shared.v === 'number' ? shared.v : 0);
+  } catch (error) {
+    console.warn('Ignoring a malformed patch in the URL:', error);
+    return null;
+  }
+};
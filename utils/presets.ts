@@ -0,0 +1,142 @@
+import type { Patch, Preset } from '../types';
+import { defaultParams, defaultSettings, migratePatch, PATCH_VERSION } from './patch';
+import { withStore } from './idb';
+
+// localStorage key used when IndexedDB is unavailable, e.g. in some private windows.
+const FALLBACK_STORAGE_KEY = 'lo-modics-presets';
+
+/** Builds a factory preset from the fields that differ from the defaults. */
+const factoryPreset = (id: string, name: string, patch: { params?: Partial<Patch['params']>; settings?: Record<string, object> }): Preset => ({
+  id: `factory-${id}`,
+  name,
+  factory: true,
+  patch: migratePatch({
+    params: { ...defaultParams, ...patch.params },
+    settings: { ...defaultSettings, ...patch.settings },
+  }, PATCH_VERSION),
+});
+
+export const factoryPresets: Preset[] = [
+  factoryPreset('init', 'Init', {}),
+  factoryPreset('robot-choir', 'Robot Choir', {
+    params: { carrierNoise: 0.05, pitch: 0 },
+    settings: {
+      bank: { ...defaultSettings.bank, bandCount: 16, spacing: 'log' },
+      carrier: { ...defaultSettings.carrier, waveform: 'supersaw', unison: 5, detune: 0.2, chord: 'major' },
+    },
+  }),
+  factoryPreset('whisper', 'Whisper', {
+    params: { carrierNoise: 1, size: 0.5 },
+    settings: {
+      envelope: { attackMs: 10, releaseMs: 60 },
+      carrier: { ...defaultSettings.carrier, waveform: 'noise' },
+    },
+  }),
+  factoryPreset('deep-drone', 'Deep Drone', {
+    params: { carrierNoise: 0, size: -1.2, pitch: -12 },
+    settings: {
+      bank: { ...defaultSettings.bank, bandCount: 12, spacing: 'log', maxFreq: 3000 },
+      envelope: { attackMs: 40, releaseMs: 400 },
+      carrier: { ...defaultSettings.carrier, waveform: 'saw', chord: 'octave' },
+    },
+  }),
+  factoryPreset('talkbox', 'Talkbox', {
+    params: { carrierNoise: 0.02, pitch: 0 },
+    settings: {
+      bank: { ...defaultSettings.bank, bandCount: 24, spacing: 'bark', maxFreq: 8000, q: 8 },
+      envelope: { attackMs: 3, releaseMs: 25 },
+      carrier: { ...defaultSettings.carrier, waveform: 'pulse', pulseWidth: 0.3, unison: 1 },
+      sibilance: { enabled: true, threshold: 0.3, amount: 0.6 },
+    },
+  }),
+  factoryPreset('tracked-lead', 'Tracked Lead', {
+    params: { carrierNoise: 0.03, pitch: 0 },
+    settings: {
+      bank: { ...defaultSettings.bank, bandCount: 20, spacing: 'mel', maxFreq: 7000 },
+      carrier: { ...defaultSettings.carrier, waveform: 'saw', unison: 2, detune: 0.05, pitchMode: 'track' },
+      tracking: { scale: 'minor', root: 9, glideMs: 15 },
+      sibilance: { enabled: true, threshold: 0.3, amount: 0.5 },
+    },
+  }),
+];
+
+/** Stored presets are migrated on load, since they may predate the current schema. */
+interface StoredPreset {
+  id: string;
+  name: string;
+  version: number;
+  patch: unknown;
+}
+
+const fromStored = (stored: StoredPreset): Preset | null => {
+  try {
+    return { id: stored.id, name: stored.name, factory: false, patch: migratePatch(stored.patch, stored.version ?? 0) };
+  } catch (error) {
+    console.warn(`Skipping unreadable preset "${stored.name}":`, error);
+    return null;
+  }
+};
+
+const toStored = (preset: Preset): StoredPreset => ({
+  id: preset.id,
+  name: preset.name,
+  version: PATCH_VERSION,
+  patch: preset.patch,
+});
+
+const readFallback = (): StoredPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FALLBACK_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeFallback = (presets: StoredPreset[]) => {
+  localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Loads the user's saved presets, sorted by name.
+ * @returns The presets, migrated to the current patch schema.
+ */
+export const loadUserPresets = async (): Promise<Preset[]> => {
+  let stored: StoredPreset[];
+  try {
+    stored = await withStore<StoredPreset[]>('presets', 'readonly', store => store.getAll());
+  } catch {
+    stored = readFallback();
+  }
+  return stored
+    .map(fromStored)
+    .filter((preset): preset is Preset => preset !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Saves a user preset, replacing any with the same id.
+ * @param preset The preset to save.
+ */
+export const saveUserPreset = async (preset: Preset): Promise<void> => {
+  try {
+    await withStore('presets', 'readwrite', store => store.put(toStored(preset)));
+  } catch {
+    writeFallback([...readFallback().filter(stored => stored.id !== preset.id), toStored(preset)]);
+  }
+};
+
+/**
+ * Deletes a user preset.
+ * @param id The id of the preset to delete.
+ */
+export const deleteUserPreset = async (id: string): Promise<void> => {
+  try {
+    await withStore('presets', 'readwrite', store => store.delete(id));
+  } catch {
+    writeFallback(readFallback().filter(stored => stored.id !== id));
+  }
+};
+
+/** Creates an id for a new user preset. */
+export const createPresetId = () => `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import type { RandomizerSettings, VocoderParams } from '../types';
+import { createRng, randomizeParams } from './randomizer';
+import { scaleIntervals } from './scales';
+
+const params: VocoderParams = { pitch: 0, size: 0, carrierNoise: 0, speed: 1 };
+
+const ranges = {
+  pitch: { min: -24, max: 24 },
+  size: { min: -2, max: 2 },
+  carrierNoise: { min: 0, max: 1 },
+  speed: { min: 0.1, max: 2 },
+};
+
+const settings: RandomizerSettings = { mode: 'mutate', amount: 0.5, locks: {}, pitchSnap: 'scale', seed: null };
+
+describe('randomizeParams', () => {
+  it('snaps the note the carrier plays to the scale', () => {
+    const root = 2;
+    const rng = createRng(7);
+    for (let i = 0; i < 50; i++) {
+      const { pitch } = randomizeParams(params, ranges, settings, rng, 'major', root);
+      // The fixed carrier plays MIDI note 40 + pitch.
+      const pitchClass = (((40 + pitch - root) % 12) + 12) % 12;
+      expect(scaleIntervals.major, `pitch ${pitch}`).toContain(pitchClass);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import type { VocoderParams, RandomizerSettings, ScaleType } from '../types';
+import { quantizeToScale } from './scales';
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+/** A source of uniform random numbers in [0, 1). */
+export type Rng = () => number;
+
+/**
+ * Creates a small, fast seeded generator (mulberry32), so a roll can be
+ * reproduced from its seed.
+ * @param seed A 32 bit integer seed.
+ * @returns The generator.
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+};
+
+/** Picks a fresh seed that is short enough to read out and type back in. */
+export const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+/** Standard normal sample using the Box-Muller transform. */
+const gaussian = (rng: Rng) => {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * A distribution a parameter is rolled from. Normal distributions are
+ * truncated to their bounds by resampling, so they do not pile up at the ends.
+ */
+type Distribution =
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'normal'; mean: number; sd: number; min: number; max: number }
+  | { kind: 'choice'; values: number[]; weights: number[] };
+
+const sample = (rng: Rng, distribution: Distribution): number => {
+  switch (distribution.kind) {
+    case 'uniform':
+      return distribution.min + rng() * (distribution.max - distribution.min);
+    case 'normal': {
+      for (let attempt = 0; attempt < 8; attempt++) {
+        const value = distribution.mean + gaussian(rng) * distribution.sd;
+        if (value >= distribution.min && value <= distribution.max) return value;
+      }
+      return distribution.mean;
+    }
+    case 'choice': {
+      const total = distribution.weights.reduce((sum, weight) => sum + weight, 0);
+      let pick = rng() * total;
+      for (let i = 0; i < distribution.values.length; i++) {
+        pick -= distribution.weights[i];
+        if (pick < 0) return distribution.values[i];
+      }
+      return distribution.values[distribution.values.length - 1];
+    }
+  }
+};
+
+// Curated so that most rolls stay usable: speed near real time, a mostly
+// tonal carrier and pitch shifts that favour musical intervals.
+const distributions: Record<keyof VocoderParams, Distribution> = {
+  pitch: { kind: 'choice', values: [-24, -12, -7, -5, 0, 5, 7, 12, 19, 24], weights: [1, 4, 2, 2, 4, 2, 3, 4, 1, 1] },
+  size: { kind: 'normal', mean: 0, sd: 0.7, min: -2, max: 2 },
+  carrierNoise: { kind: 'normal', mean: 0.1, sd: 0.25, min: 0, max: 1 },
+  speed: { kind: 'normal', mean: 1, sd: 0.25, min: 0.5, max: 1.6 },
+};
+
+// MIDI note the fixed carrier plays at a pitch offset of 0, see dsp/carrier.ts.
+const CARRIER_BASE_NOTE = 40;
+
+/**
+ * Rounds a pitch offset to semitones or to the notes of a scale.
+ * @param pitch The pitch offset in semitones.
+ * @param settings The randomiser settings, for the snap mode.
+ * @param scale The tracking scale used by 'scale' snapping.
+ * @param root The root of that scale, 0 for C.
+ * @returns The snapped pitch.
+ */
+const snapPitch = (pitch: number, settings: RandomizerSettings, scale: ScaleType, root: number) => {
+  if (settings.pitchSnap === 'off') return pitch;
+  if (settings.pitchSnap === 'scale' && scale !== 'off') {
+    // The scale is in absolute pitch classes, so snap the note that sounds.
+    return quantizeToScale(CARRIER_BASE_NOTE + pitch, scale, root) - CARRIER_BASE_NOTE;
+  }
+  return Math.round(pitch);
+};
+
+/**
+ * Rolls or mutates the voice parameters, leaving locked ones untouched.
+ * @param current The current parameters.
+ * @param ranges The slider ranges values are kept within.
+ * @param settings Mode, mutation amount, locks and pitch snapping.
+ * @param rng The random source, seeded for reproducible rolls.
+ * @param scale The tracking scale, for snapping pitch to scale degrees.
+ * @param root The scale's root pitch class.
+ * @returns The new parameters.
+ */
+export const randomizeParams = (
+  current: VocoderParams,
+  ranges: Record<keyof VocoderParams, Range>,
+  settings: RandomizerSettings,
+  rng: Rng,
+  scale: ScaleType,
+  root: number,
+): VocoderParams => {
+  const next = { ...current };
+  // Every parameter draws from the generator, locked or not, so toggling a
+  // lock does not change what the same seed gives the others.
+  (Object.keys(distributions) as (keyof VocoderParams)[]).forEach(param => {
+    const range = ranges[param];
+    let value = settings.mode === 'mutate'
+      ? current[param] + gaussian(rng) * settings.amount * (range.max - range.min)
+      : sample(rng, distributions[param]);
+    if (param === 'pitch') value = snapPitch(value, settings, scale, root);
+    if (!settings.locks[param]) {
+      next[param] = Math.max(range.min, Math.min(range.max, value));
+    }
+  });
+  return next;
+};
@@ -0,0 +1,37 @@
+import type { ScaleType } from '../types';
+
+/** Semitone degrees of each scale, relative to its root. */
+export const scaleIntervals: Record<Exclude<ScaleType, 'off'>, number[]> = {
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  blues: [0, 3, 5, 6, 7, 10],
+};
+
+export const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Snaps a (possibly fractional) note number to the nearest note of a scale.
+ * @param note The note number, e.g. a MIDI note or a semitone offset.
+ * @param scale The scale to snap to. 'off' returns the note unchanged.
+ * @param root The pitch class of the scale's root, 0 for C.
+ * @returns The nearest note number that belongs to the scale.
+ */
+export const quantizeToScale = (note: number, scale: ScaleType, root: number): number => {
+  if (scale === 'off') return note;
+  const degrees = scaleIntervals[scale];
+  const base = Math.round(note);
+  let best = base;
+  let bestDistance = Infinity;
+  for (let offset = -6; offset <= 6; offset++) {
+    const candidate = base + offset;
+    const pitchClass = (((candidate - root) % 12) + 12) % 12;
+    const distance = Math.abs(candidate - note);
+    if (degrees.includes(pitchClass) && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,100 @@
+import type { Take, TakeSource } from '../types';
+import { waveformPeaks } from './bufferEdit';
+import { withStore } from './idb';
+
+// Columns in a take's thumbnail waveform.
+const THUMBNAIL_COLUMNS = 96;
+
+/**
+ * A take as it is kept in IndexedDB. AudioBuffers cannot be stored, so the
+ * samples go in as one array per channel.
+ */
+interface StoredTake {
+  id: string;
+  name: string;
+  source: TakeSource;
+  createdAt: number;
+  sampleRate: number;
+  channels: Float32Array[];
+  peaks: Float32Array;
+}
+
+const fromStored = (stored: StoredTake): Take | null => {
+  try {
+    const buffer = new AudioBuffer({
+      length: stored.channels[0].length,
+      numberOfChannels: stored.channels.length,
+      sampleRate: stored.sampleRate,
+    });
+    stored.channels.forEach((channel, c) => buffer.copyToChannel(channel, c));
+    return { id: stored.id, name: stored.name, source: stored.source, createdAt: stored.createdAt, buffer, peaks: stored.peaks };
+  } catch (error) {
+    console.warn(`Skipping unreadable take "${stored.name}":`, error);
+    return null;
+  }
+};
+
+const toStored = (take: Take): StoredTake => ({
+  id: take.id,
+  name: take.name,
+  source: take.source,
+  createdAt: take.createdAt,
+  sampleRate: take.buffer.sampleRate,
+  channels: Array.from({ length: take.buffer.numberOfChannels }, (_, c) => take.buffer.getChannelData(c).slice()),
+  peaks: take.peaks,
+});
+
+/**
+ * Creates a take for a new clip, with an id and thumbnail.
+ * @param buffer The clip's audio.
+ * @param name The name shown in the take list.
+ * @param source How the clip was captured.
+ */
+export const createTake = (buffer: AudioBuffer, name: string, source: TakeSource): Take => ({
+  id: `take-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  source,
+  createdAt: Date.now(),
+  buffer,
+  peaks: waveformPeaks(buffer, THUMBNAIL_COLUMNS),
+});
+
+/**
+ * Gives a take new audio, such as a waveform edit, with a fresh thumbnail.
+ * @param take The take to update.
+ * @param buffer Its new audio.
+ */
+export const withTakeBuffer = (take: Take, buffer: AudioBuffer): Take => ({
+  ...take,
+  buffer,
+  peaks: waveformPeaks(buffer, THUMBNAIL_COLUMNS),
+});
+
+/**
+ * Loads the stored takes, oldest first. Unlike presets there is no
+ * localStorage fallback, audio is far too large for it.
+ * @returns The takes that could be decoded.
+ */
+export const loadTakes = async (): Promise<Take[]> => {
+  const stored = await withStore<StoredTake[]>('takes', 'readonly', store => store.getAll());
+  return stored
+    .map(fromStored)
+    .filter((take): take is Take => take !== null)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Saves a take, replacing any with the same id.
+ * @param take The take to save.
+ */
+export const saveTake = async (take: Take): Promise<void> => {
+  await withStore('takes', 'readwrite', store => store.put(toStored(take)));
+};
+
+/**
+ * Deletes a stored take.
+ * @param id The id of the take to delete.
+ */
+export const deleteStoredTake = async (id: string): Promise<void> => {
+  await withStore('takes', 'readwrite', store => store.delete(id));
+};
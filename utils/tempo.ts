@@ -0,0 +1,120 @@
+/** Beats in a bar; the app counts everything in 4/4. */
+export const BEATS_PER_BAR = 4;
+
+// Tempo range searched, in BPM, and the tempo the search leans towards when
+// a clip's pulse fits several multiples equally well.
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+// Onset envelope resolution, in seconds.
+const HOP_SECONDS = 0.01;
+
+export interface TempoEstimate {
+  bpm: number;
+  /** How clearly the clip pulses at that tempo, 0 to 1. Speech rarely passes 0.3, drums easily do. */
+  confidence: number;
+  /** Time of the first clear onset, in seconds, where the downbeat most likely is. */
+  firstOnset: number;
+}
+
+/**
+ * Follows how sharply the level rises, one value per hop. Differentiating the
+ * signal first favours the clicks and consonants that mark beats over the
+ * low end, which swells too slowly to place them.
+ */
+const onsetEnvelope = (buffer: AudioBuffer, hop: number): Float32Array => {
+  const frames = Math.floor(buffer.length / hop);
+  const energy = new Float32Array(frames);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let f = 0; f < frames; f++) {
+      let sum = 0;
+      for (let i = Math.max(1, f * hop); i < (f + 1) * hop; i++) {
+        const diff = data[i] - data[i - 1];
+        sum += diff * diff;
+      }
+      energy[f] += sum;
+    }
+  }
+  const flux = new Float32Array(frames);
+  let previous = Math.log(1e-10 + energy[0] / hop);
+  for (let f = 1; f < frames; f++) {
+    const level = Math.log(1e-10 + energy[f] / hop);
+    flux[f] = Math.max(0, level - previous);
+    previous = level;
+  }
+  return flux;
+};
+
+const autocorrelation = (data: Float32Array, lag: number) => {
+  let sum = 0;
+  for (let i = lag; i < data.length; i++) sum += data[i] * data[i - lag];
+  return sum / (data.length - lag);
+};
+
+/**
+ * Estimates the tempo of a clip from the autocorrelation of its onsets.
+ * @param buffer The clip, ideally a few bars long.
+ * @returns The estimate, or null if the clip is too short or has no onsets.
+ */
+export const detectTempo = (buffer: AudioBuffer): TempoEstimate | null => {
+  const hop = Math.max(1, Math.round(buffer.sampleRate * HOP_SECONDS));
+  const hopSeconds = hop / buffer.sampleRate;
+  const flux = onsetEnvelope(buffer, hop);
+  const minLag = Math.floor(60 / MAX_BPM / hopSeconds);
+  const maxLag = Math.ceil(60 / MIN_BPM / hopSeconds);
+  // At least four beats at the slowest tempo, so every lag is seen repeating.
+  if (flux.length < maxLag * 4) return null;
+
+  let mean = 0;
+  for (const value of flux) mean += value;
+  mean /= flux.length;
+  let variance = 0;
+  for (let f = 0; f < flux.length; f++) {
+    flux[f] -= mean;
+    variance += flux[f] * flux[f];
+  }
+  variance /= flux.length;
+  if (variance <= 0) return null;
+
+  const correlations = new Float32Array(maxLag * 2 + 2);
+  for (let lag = minLag - 1; lag < correlations.length; lag++) {
+    correlations[lag] = autocorrelation(flux, lag);
+  }
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * hopSeconds);
+    const prior = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    // A real pulse also lines up two beats later.
+    const score = (correlations[lag] + 0.5 * correlations[lag * 2]) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // A parabola through the peak and its neighbours places it between hops.
+  const [before, peak, after] = [correlations[bestLag - 1], correlations[bestLag], correlations[bestLag + 1]];
+  const curvature = before - 2 * peak + after;
+  const shift = curvature < 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (before - after) / curvature)) : 0;
+  const bpm = 60 / ((bestLag + shift) * hopSeconds);
+
+  const threshold = 2 * Math.sqrt(variance);
+  const firstFrame = flux.findIndex(value => value > threshold);
+  return {
+    bpm,
+    confidence: Math.max(0, Math.min(1, peak / variance)),
+    firstOnset: Math.max(0, firstFrame) * hopSeconds,
+  };
+};
+
+/**
+ * Length of a loop region that plays for whole bars at a tempo.
+ * @param bars Number of bars.
+ * @param bpm The project tempo.
+ * @param speed The modulator's playback speed, since the region is measured in the recording.
+ * @returns The region length in seconds of the recording.
+ */
+export const barsToRegionSeconds = (bars: number, bpm: number, speed: number) =>
+  (bars * BEATS_PER_BAR * 60 / bpm) * speed;